@@ -0,0 +1,216 @@
+import { useEffect, useRef, useState } from "react";
+import type { CalibrationPoint } from "@/lib/calibration";
+import type { CalibrationFit, Point } from "@/lib/homography";
+import type { LineDetection } from "@/lib/line-detection";
+import { fromView, toView, type FrameSize, type ViewTransform } from "@/lib/view";
+
+interface CalibrationPointsOverlayProps {
+  points: CalibrationPoint[];
+  calibrationFit?: CalibrationFit | null;
+  replacingPointIndex: number | null;
+  detection?: LineDetection | null;
+  straightLines?: Point[][];
+  view: ViewTransform;
+  frame: FrameSize; // native video size
+  onPlace: (x: number, y: number) => void;
+  onMove: (index: number, x: number, y: number) => void;
+  onDragChange?: (dragging: boolean) => void;
+}
+
+const NUDGE_STEP = 1;
+const NUDGE_STEP_LARGE = 10;
+
+export const CalibrationPointsOverlay = ({
+  points,
+  calibrationFit,
+  replacingPointIndex,
+  detection,
+  straightLines = [],
+  view,
+  frame,
+  onPlace,
+  onMove,
+  onDragChange,
+}: CalibrationPointsOverlayProps) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+
+  // Points are placed and reported in video pixels
+  const toLocal = (clientX: number, clientY: number) => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return fromView({ x: clientX - rect.left, y: clientY - rect.top }, view);
+  };
+  const isInFrame = (p: Point) => p.x >= 0 && p.y >= 0 && p.x <= frame.width && p.y <= frame.height;
+  const content = toView({ x: 0, y: 0 }, view);
+
+  // Drop the selection if the point it refers to is gone (reset / mode change)
+  useEffect(() => {
+    if (selectedIndex !== null && selectedIndex >= points.length) setSelectedIndex(null);
+  }, [points.length, selectedIndex]);
+
+  // Arrow keys nudge the selected point, Shift for larger steps
+  useEffect(() => {
+    if (selectedIndex === null) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA") return;
+
+      const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+      const offsets: Record<string, [number, number]> = {
+        ArrowLeft: [-step, 0],
+        ArrowRight: [step, 0],
+        ArrowUp: [0, -step],
+        ArrowDown: [0, step],
+      };
+
+      if (e.key === "Escape") {
+        setSelectedIndex(null);
+        return;
+      }
+
+      const offset = offsets[e.key];
+      const point = points[selectedIndex];
+      if (!offset || !point) return;
+
+      e.preventDefault();
+      // Steps are screen pixels
+      onMove(selectedIndex, point.x + offset[0] / view.scaleX, point.y + offset[1] / view.scaleY);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [selectedIndex, points, view, onMove]);
+
+  return (
+    <div
+      ref={overlayRef}
+      className="absolute inset-0 cursor-crosshair z-20"
+      onClick={(e) => {
+        // Letterbox bars are not part of the frame
+        const { x, y } = toLocal(e.clientX, e.clientY);
+        if (!isInFrame({ x, y })) return;
+        setSelectedIndex(null);
+        onPlace(x, y);
+      }}
+    >
+      <div
+        className="absolute bg-black/20 pointer-events-none"
+        style={{ left: content.x, top: content.y, width: frame.width * view.scaleX, height: frame.height * view.scaleY }}
+      />
+
+      {/* Detected lines and the junctions clicks snap to */}
+      {detection && (
+        <svg className="absolute inset-0 w-full h-full pointer-events-none">
+          <g transform={`matrix(${view.scaleX} 0 0 ${view.scaleY} ${view.offsetX} ${view.offsetY})`}>
+            {detection.segments.map((segment, index) => (
+              <line
+                key={`segment-${index}`}
+                x1={segment.from.x}
+                y1={segment.from.y}
+                x2={segment.to.x}
+                y2={segment.to.y}
+                stroke="#22d3ee"
+                strokeWidth={1.5}
+                strokeOpacity={0.7}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+            {detection.ellipses.map((ellipse, index) => (
+              <ellipse
+                key={`ellipse-${index}`}
+                cx={ellipse.center.x}
+                cy={ellipse.center.y}
+                rx={ellipse.radiusX}
+                ry={ellipse.radiusY}
+                transform={`rotate(${(ellipse.rotation * 180) / Math.PI} ${ellipse.center.x} ${ellipse.center.y})`}
+                fill="none"
+                stroke="#22d3ee"
+                strokeWidth={1.5}
+                strokeOpacity={0.7}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </g>
+          {detection.candidates.map(c => toView(c, view)).map((candidate, index) => (
+            <rect
+              key={`candidate-${index}`}
+              x={candidate.x - 4}
+              y={candidate.y - 4}
+              width={8}
+              height={8}
+              fill="none"
+              stroke="#facc15"
+              strokeWidth={1.5}
+            />
+          ))}
+        </svg>
+      )}
+
+      {/* Points along straight pitch lines, used to estimate lens distortion */}
+      {straightLines.length > 0 && (
+        <svg className="absolute inset-0 w-full h-full pointer-events-none">
+          {straightLines.map(line => line.map(p => toView(p, view))).map((line, lineIndex) => (
+            <g key={lineIndex}>
+              <polyline
+                points={line.map(p => `${p.x},${p.y}`).join(" ")}
+                fill="none"
+                stroke="#fb923c"
+                strokeWidth={1.5}
+                strokeDasharray="4 3"
+              />
+              {line.map((p, index) => (
+                <circle key={index} cx={p.x} cy={p.y} r={3} fill="#fb923c" stroke="white" strokeWidth={1} />
+              ))}
+            </g>
+          ))}
+        </svg>
+      )}
+
+      {points.map((point, index) => {
+        const position = toView(point, view);
+        const isOutlier = calibrationFit?.inliers?.[index] === false;
+        const isSelected = selectedIndex === index || replacingPointIndex === index;
+        return (
+          <div
+            key={index}
+            className={`absolute w-4 h-4 rounded-full border-2 border-white transform -translate-x-1/2 -translate-y-1/2 shadow-lg touch-none ${
+              draggingIndex === index ? "cursor-grabbing" : "cursor-grab animate-pulse"
+            } ${isOutlier ? "bg-destructive" : "bg-primary"} ${isSelected ? "ring-2 ring-yellow-400" : ""}`}
+            style={{ left: position.x, top: position.y }}
+            onClick={(e) => e.stopPropagation()}
+            // Pointer capture keeps the drag alive when the cursor outruns the dot
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              e.currentTarget.setPointerCapture(e.pointerId);
+              setSelectedIndex(index);
+              setDraggingIndex(index);
+              onDragChange?.(true);
+            }}
+            onPointerMove={(e) => {
+              if (draggingIndex !== index) return;
+              const { x, y } = toLocal(e.clientX, e.clientY);
+              onMove(index, Math.max(0, Math.min(frame.width, x)), Math.max(0, Math.min(frame.height, y)));
+            }}
+            onPointerUp={(e) => {
+              e.currentTarget.releasePointerCapture(e.pointerId);
+              setDraggingIndex(null);
+              onDragChange?.(false);
+            }}
+            onPointerCancel={() => {
+              setDraggingIndex(null);
+              onDragChange?.(false);
+            }}
+          >
+            <span className={`absolute -top-6 left-1/2 transform -translate-x-1/2 text-xs font-bold px-1 rounded ${
+              isOutlier ? "bg-destructive text-destructive-foreground" : "bg-primary text-primary-foreground"
+            }`}>
+              {index + 1}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
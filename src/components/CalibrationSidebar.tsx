@@ -1,6 +1,23 @@
-import { Target } from "lucide-react";
+import { useState } from "react";
+import { Target, ScanLine, Wand2, Save, Trash2, FileVideo } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { CalibrationMode, CalibrationPoint } from "@/components/FieldCalibration";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CalibrationMode, CalibrationPoint } from "@/lib/calibration";
+import { PitchDiagram } from "@/components/PitchDiagram";
+import {
+  LANDMARK_MODE,
+  getCalibrationInstruction,
+  getPitchLandmark,
+  getRequiredPoints,
+} from "@/lib/landmarks";
+import { getPoorFitPixels, type CalibrationFit, type Point } from "@/lib/homography";
+import type { LineDetection } from "@/lib/line-detection";
+import type { SavedCalibration } from "@/lib/calibration-store";
+import type { PitchModel } from "@/lib/pitch";
+import type { FrameSize } from "@/lib/view";
+import { PITCH_TEMPLATES, getPitchTemplate } from "@/lib/pitch-templates";
 import {
   Sidebar,
   SidebarContent,
@@ -10,65 +27,100 @@ import {
   SidebarHeader,
 } from "@/components/ui/sidebar";
 
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = (time % 60).toFixed(1);
+  return `${minutes}:${seconds.padStart(4, "0")}`;
+};
+
 interface CalibrationSidebarProps {
   calibrationMode: CalibrationMode;
   calibrationPoints: CalibrationPoint[];
+  pitch: PitchModel;
+  frame: FrameSize; // native video size
+  calibrationFit?: CalibrationFit | null;
+  robust: boolean;
+  onRobustChange: (robust: boolean) => void;
+  replacingPointIndex: number | null;
+  onReplacePoint: (index: number | null) => void;
+  activeLandmarkId: string | null;
+  onLandmarkSelect: (id: string) => void;
   onModeChange: (mode: CalibrationMode) => void;
+  onTemplateChange: (templateId: string) => void;
+  keyframeTime: number;
+  lineDetection: LineDetection | null;
+  isDetectingLines: boolean;
+  snapToLines: boolean;
+  onSnapToLinesChange: (snap: boolean) => void;
+  onDetectLines: () => void;
+  onAutoFill: () => void;
+  distortionCoefficients: 0 | 1 | 2;
+  onDistortionCoefficientsChange: (coefficients: 0 | 1 | 2) => void;
+  straightLines: Point[][];
+  activeLineIndex: number | null;
+  onAddStraightLine: () => void;
+  onFinishStraightLine: () => void;
+  onRemoveStraightLine: (index: number) => void;
+  videoCalibration: SavedCalibration | null; // saved for the open video file
+  calibrationPresets: SavedCalibration[];    // named stadium / camera presets
+  onApplySavedCalibration: (saved: SavedCalibration) => void;
+  onSaveCalibrationPreset: (name: string) => void;
+  onDeleteCalibrationPreset: (id: string) => void;
   onReset: () => void;
   onComplete: () => void;
+  onCancel?: () => void; // leave without adding a keyframe, once one exists
 }
 
 export const CalibrationSidebar = ({
   calibrationMode,
   calibrationPoints,
+  pitch,
+  frame,
+  calibrationFit,
+  robust,
+  onRobustChange,
+  replacingPointIndex,
+  onReplacePoint,
+  activeLandmarkId,
+  onLandmarkSelect,
   onModeChange,
+  onTemplateChange,
+  keyframeTime,
+  lineDetection,
+  isDetectingLines,
+  snapToLines,
+  onSnapToLinesChange,
+  onDetectLines,
+  onAutoFill,
+  distortionCoefficients,
+  onDistortionCoefficientsChange,
+  straightLines,
+  activeLineIndex,
+  onAddStraightLine,
+  onFinishStraightLine,
+  onRemoveStraightLine,
+  videoCalibration,
+  calibrationPresets,
+  onApplySavedCalibration,
+  onSaveCalibrationPreset,
+  onDeleteCalibrationPreset,
   onReset,
   onComplete,
+  onCancel,
 }: CalibrationSidebarProps) => {
-  const getCalibrationInstruction = (mode: CalibrationMode, pointIndex: number): string => {
-    const instructions = {
-      "away-goal": [
-        "Click top-left corner of small goal area",
-        "Click top-right corner of small goal area", 
-        "Click bottom-left corner of small goal area",
-        "Click bottom-right corner of small goal area",
-        "Click top-left corner of large goal area",
-        "Click top-right corner of large goal area",
-        "Click bottom-left corner of large goal area",
-        "Click bottom-right corner of large goal area"
-      ],
-      "home-goal": [
-        "Click top-left corner of small goal area",
-        "Click top-right corner of small goal area",
-        "Click bottom-left corner of small goal area", 
-        "Click bottom-right corner of small goal area",
-        "Click top-left corner of large goal area",
-        "Click top-right corner of large goal area",
-        "Click bottom-left corner of large goal area",
-        "Click bottom-right corner of large goal area"
-      ],
-      "center-circle": [
-        "Click the Center Spot of the pitch",
-        "Click the Top of the Center Circle (closest to a goal)",
-        "Click the Right point of the Center Circle (on halfway line)",
-        "Click the Bottom of the Center Circle (furthest from a goal)",
-        "Click the Left point of the Center Circle (on halfway line)",
-        "Click the Midpoint of the Top Touchline",
-        "Click the Midpoint of the Bottom Touchline"
-      ]
-    };
-    
-    return instructions[mode][pointIndex] || "Calibration complete";
-  };
+  const [presetName, setPresetName] = useState("");
+  const template = getPitchTemplate(pitch.template);
+  const isLandmarkMode = calibrationMode === LANDMARK_MODE;
+  const activeLandmark = activeLandmarkId ? getPitchLandmark(activeLandmarkId, pitch) : undefined;
 
-  const getRequiredPoints = (mode: CalibrationMode): number => {
-    const requiredPoints = {
-      "away-goal": 8,
-      "home-goal": 8,
-      "center-circle": 7
-    };
-    return requiredPoints[mode];
-  };
+  const outlierCount = calibrationFit?.inliers?.filter(inlier => !inlier).length ?? 0;
+  // Reprojection error above which a point (or the whole fit) is flagged, the
+  // same that RANSAC rejects outliers at
+  const poorFitPixels = getPoorFitPixels(frame);
+  // Four points are fit exactly, so RANSAC has nothing to reject
+  const canRejectOutliers = isLandmarkMode
+    ? calibrationPoints.length > 4
+    : getRequiredPoints(calibrationMode, pitch) > 4;
 
   return (
     <Sidebar side="right" className="w-80">
@@ -77,36 +129,117 @@ export const CalibrationSidebar = ({
           <Target className="h-5 w-5 text-primary" />
           <h2 className="text-lg font-semibold">Field Calibration</h2>
         </div>
+        <p className="text-xs text-muted-foreground">
+          Keyframe at {formatTime(keyframeTime)}. Add more keyframes when the camera pans or zooms.
+        </p>
       </SidebarHeader>
 
       <SidebarContent>
         <SidebarGroup>
-          <SidebarGroupLabel>Camera View</SidebarGroupLabel>
+          <SidebarGroupLabel>Saved Calibrations</SidebarGroupLabel>
           <SidebarGroupContent>
             <div className="space-y-2">
-              <Button
-                size="sm"
-                variant={calibrationMode === "away-goal" ? "default" : "outline"}
-                onClick={() => onModeChange("away-goal")}
-                className="w-full justify-start"
-              >
-                Away Goal Area
-              </Button>
-              <Button
-                size="sm"
-                variant={calibrationMode === "home-goal" ? "default" : "outline"}
-                onClick={() => onModeChange("home-goal")}
-                className="w-full justify-start"
+              {videoCalibration && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onApplySavedCalibration(videoCalibration)}
+                  className="w-full justify-start gap-2"
+                >
+                  <FileVideo className="h-4 w-4" />
+                  This video ({videoCalibration.keyframes.length} keyframes)
+                </Button>
+              )}
+              {calibrationPresets.map((preset) => (
+                <div key={preset.id} className="flex items-center gap-1">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onApplySavedCalibration(preset)}
+                    className="flex-1 justify-start truncate"
+                    title={`${getPitchTemplate(preset.pitch.template).name}, saved ${new Date(preset.savedAt).toLocaleDateString()}`}
+                  >
+                    {preset.name}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 w-8 p-0"
+                    onClick={() => onDeleteCalibrationPreset(preset.id)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+              <form
+                className="flex items-center gap-1"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (!presetName.trim()) return;
+                  onSaveCalibrationPreset(presetName.trim());
+                  setPresetName("");
+                }}
               >
-                Home Goal Area
-              </Button>
+                <Input
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  placeholder="Stadium / camera name"
+                  className="h-8 text-sm"
+                />
+                <Button
+                  type="submit"
+                  size="sm"
+                  variant="outline"
+                  className="h-8 w-8 p-0"
+                  disabled={!presetName.trim() || !calibrationFit}
+                >
+                  <Save className="h-3 w-3" />
+                </Button>
+              </form>
+            </div>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Pitch</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <Select value={template.id} onValueChange={onTemplateChange}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PITCH_TEMPLATES.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Camera View</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <div className="space-y-2">
+              {template.presets.map((preset) => (
+                <Button
+                  key={preset.id}
+                  size="sm"
+                  variant={calibrationMode === preset.id ? "default" : "outline"}
+                  onClick={() => onModeChange(preset.id)}
+                  className="w-full justify-start"
+                >
+                  {preset.title}
+                </Button>
+              ))}
               <Button
                 size="sm"
-                variant={calibrationMode === "center-circle" ? "default" : "outline"}
-                onClick={() => onModeChange("center-circle")}
+                variant={isLandmarkMode ? "default" : "outline"}
+                onClick={() => onModeChange(LANDMARK_MODE)}
                 className="w-full justify-start"
               >
-                Center Circle
+                Free Landmarks
               </Button>
             </div>
           </SidebarGroupContent>
@@ -116,28 +249,166 @@ export const CalibrationSidebar = ({
           <SidebarGroupLabel>Instructions</SidebarGroupLabel>
           <SidebarGroupContent>
             <div className="space-y-3">
-              <div className="text-sm">
-                <div className="font-medium mb-2">
-                  Step {calibrationPoints.length + 1} of {getRequiredPoints(calibrationMode)}
+              {isLandmarkMode ? (
+                <div className="text-sm space-y-2">
+                  <PitchDiagram
+                    pitch={pitch}
+                    placedLandmarkIds={calibrationPoints.map(p => p.landmarkId).filter(Boolean)}
+                    activeLandmarkId={activeLandmarkId}
+                    onLandmarkSelect={onLandmarkSelect}
+                  />
+                  <p className="text-muted-foreground leading-relaxed">
+                    {activeLandmark
+                      ? `Click the ${activeLandmark.name} on the video`
+                      : "Pick a visible landmark on the diagram, then click it on the video. Any four or more work, as long as they are not all on one line."}
+                  </p>
                 </div>
-                <p className="text-muted-foreground leading-relaxed">
-                  {getCalibrationInstruction(calibrationMode, calibrationPoints.length)}
-                </p>
-              </div>
+              ) : (
+                <div className="text-sm">
+                  <div className="font-medium mb-2">
+                    Step {calibrationPoints.length + 1} of {getRequiredPoints(calibrationMode, pitch)}
+                  </div>
+                  <p className="text-muted-foreground leading-relaxed">
+                    {getCalibrationInstruction(calibrationMode, calibrationPoints.length, pitch)}
+                  </p>
+                </div>
+              )}
               
               <div className="text-xs text-muted-foreground">
-                Progress: {calibrationPoints.length}/{getRequiredPoints(calibrationMode)} points placed
+                {isLandmarkMode
+                  ? `Progress: ${calibrationPoints.length} landmarks placed (at least ${getRequiredPoints(calibrationMode, pitch)})`
+                  : `Progress: ${calibrationPoints.length}/${getRequiredPoints(calibrationMode, pitch)} points placed`}
               </div>
               
-              {calibrationPoints.length > 0 && (
+              {replacingPointIndex !== null ? (
+                <div className="text-xs font-medium text-primary">
+                  Click on the video to re-place point {replacingPointIndex + 1}
+                </div>
+              ) : calibrationPoints.length > 0 && (
                 <div className="text-xs text-muted-foreground">
-                  Click on the video to place calibration points
+                  Click on the video to place calibration points. Drag a point, or select it and use the
+                  arrow keys (Shift for 10 px), to line the field overlay up with the markings.
                 </div>
               )}
             </div>
           </SidebarGroupContent>
         </SidebarGroup>
 
+        <SidebarGroup>
+          <SidebarGroupLabel>Line Detection</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <div className="space-y-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={onDetectLines}
+                disabled={isDetectingLines}
+                className="w-full gap-2"
+              >
+                <ScanLine className="h-4 w-4" />
+                {isDetectingLines ? "Detecting..." : "Detect Pitch Lines"}
+              </Button>
+              {lineDetection && (
+                <>
+                  <div className="text-xs text-muted-foreground">
+                    {lineDetection.segments.length} lines, {lineDetection.ellipses.length} circles,{" "}
+                    {lineDetection.candidates.length} junctions found
+                  </div>
+                  <label className="flex items-center justify-between text-sm">
+                    <span>Snap clicks to junctions</span>
+                    <Switch checked={snapToLines} onCheckedChange={onSnapToLinesChange} />
+                  </label>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={onAutoFill}
+                    className="w-full gap-2"
+                  >
+                    <Wand2 className="h-4 w-4" />
+                    Auto-fill Landmarks
+                  </Button>
+                  <p className="text-xs text-muted-foreground">
+                    Auto-fill matches junctions to landmarks using the points placed so far or the
+                    previous keyframe, then leaves the result for you to check and complete.
+                  </p>
+                </>
+              )}
+            </div>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Estimation</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <label className="flex items-center justify-between text-sm">
+              <span>Reject outliers (RANSAC)</span>
+              <Switch checked={robust && canRejectOutliers} onCheckedChange={onRobustChange} disabled={!canRejectOutliers} />
+            </label>
+            {!canRejectOutliers && (
+              <p className="text-xs text-muted-foreground mt-1">Needs more than four points.</p>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Lens Distortion</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <div className="space-y-2">
+              <Select
+                value={String(distortionCoefficients)}
+                onValueChange={(value) => onDistortionCoefficientsChange(Number(value) as 0 | 1 | 2)}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="0">None (pinhole)</SelectItem>
+                  <SelectItem value="1">Radial, k1</SelectItem>
+                  <SelectItem value="2">Radial, k1 + k2</SelectItem>
+                </SelectContent>
+              </Select>
+              {distortionCoefficients > 0 && (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    Click three or more points along straight pitch lines that bend near the frame
+                    edges, such as touchlines and goal lines.
+                  </p>
+                  {straightLines.map((line, index) => (
+                    <div key={index} className="flex items-center justify-between text-xs">
+                      <span className={activeLineIndex === index ? "font-medium text-primary" : ""}>
+                        Line {index + 1}: {line.length} points
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => onRemoveStraightLine(index)}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  ))}
+                  {activeLineIndex !== null ? (
+                    <Button size="sm" variant="outline" onClick={onFinishStraightLine} className="w-full">
+                      Finish Line
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="outline" onClick={onAddStraightLine} className="w-full">
+                      Add Straight Line
+                    </Button>
+                  )}
+                  {calibrationFit?.distortion && (
+                    <div className="text-xs font-mono text-muted-foreground">
+                      k1 {calibrationFit.distortion.k1.toFixed(4)}
+                      {distortionCoefficients === 2 && ` · k2 ${calibrationFit.distortion.k2.toFixed(4)}`}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
         <SidebarGroup>
           <SidebarGroupLabel>Actions</SidebarGroupLabel>
           <SidebarGroupContent>
@@ -154,26 +425,85 @@ export const CalibrationSidebar = ({
               <Button
                 size="sm"
                 onClick={onComplete}
-                disabled={calibrationPoints.length < getRequiredPoints(calibrationMode)}
+                disabled={
+                  calibrationPoints.length < getRequiredPoints(calibrationMode, pitch) ||
+                  (isLandmarkMode && !calibrationFit)
+                }
                 className="w-full"
               >
                 Complete Calibration
               </Button>
+              {onCancel && (
+                <Button size="sm" variant="ghost" onClick={onCancel} className="w-full">
+                  Cancel
+                </Button>
+              )}
             </div>
           </SidebarGroupContent>
         </SidebarGroup>
 
+        {calibrationFit && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Fit Quality</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <div className="space-y-1 text-xs">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">RMS error (image)</span>
+                  <span className="font-mono">{calibrationFit.rmsPixels.toFixed(1)} px</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">RMS error (field)</span>
+                  <span className="font-mono">{calibrationFit.rmsMeters.toFixed(2)} m</span>
+                </div>
+                {outlierCount > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Outliers rejected</span>
+                    <span className="font-mono text-destructive">{outlierCount}</span>
+                  </div>
+                )}
+                {calibrationFit.rmsPixels > poorFitPixels && (
+                  <p className="text-destructive">
+                    High reprojection error – check the highlighted points.
+                  </p>
+                )}
+              </div>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+
         {calibrationPoints.length > 0 && (
           <SidebarGroup>
             <SidebarGroupLabel>Placed Points</SidebarGroupLabel>
             <SidebarGroupContent>
               <div className="space-y-1">
-                {calibrationPoints.map((point, index) => (
-                  <div key={index} className="text-xs text-muted-foreground flex justify-between">
-                    <span>Point {index + 1}</span>
-                    <span>({Math.round(point.x)}, {Math.round(point.y)})</span>
-                  </div>
-                ))}
+                {calibrationPoints.map((point, index) => {
+                  const error = calibrationFit?.errors[index];
+                  const isOutlier = calibrationFit?.inliers?.[index] === false;
+                  return (
+                    <div
+                      key={index}
+                      className={`text-xs flex items-center justify-between gap-2 ${
+                        isOutlier ? "text-destructive" : "text-muted-foreground"
+                      }`}
+                    >
+                      <span>{point.label}{isOutlier && " (outlier)"}</span>
+                      <span>({Math.round(point.x)}, {Math.round(point.y)})</span>
+                      {error && (
+                        <span className={`font-mono ${error.pixels > poorFitPixels ? "text-destructive" : ""}`}>
+                          {error.pixels.toFixed(1)} px / {error.meters.toFixed(2)} m
+                        </span>
+                      )}
+                      <Button
+                        size="sm"
+                        variant={replacingPointIndex === index ? "default" : "ghost"}
+                        onClick={() => onReplacePoint(replacingPointIndex === index ? null : index)}
+                        className="h-6 px-2 text-xs"
+                      >
+                        {replacingPointIndex === index ? "Cancel" : "Re-place"}
+                      </Button>
+                    </div>
+                  );
+                })}
               </div>
             </SidebarGroupContent>
           </SidebarGroup>
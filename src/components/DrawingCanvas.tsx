@@ -1,18 +1,120 @@
 import { useEffect, useRef, useState, forwardRef, useImperativeHandle } from "react";
-import { Canvas as FabricCanvas, Circle, Rect, Path, Line, Polygon, IText } from "fabric";
+import {
+  Canvas as FabricCanvas,
+  Ellipse,
+  IText,
+  Line,
+  Point as FabricPoint,
+  Polygon,
+  Polyline,
+  Rect,
+  type FabricObject,
+  type TPointerEventInfo,
+} from "fabric";
 import { toast } from "sonner";
-import { Homography, type Point } from "@/lib/homography";
+import type { DrawingTool } from "./DrawingToolbar";
+import { projectToField, projectToImage, type CameraModel } from "@/lib/camera";
+import {
+  ARROW_PROPERTIES,
+  attachArrowControls,
+  createArrow,
+  isArrow,
+  moveArrow,
+  reprojectArrows,
+  setArrowEnds,
+  type ArrowOptions,
+} from "@/lib/arrows";
+import { groundShapeFromDrag } from "@/lib/ground-shapes";
+import type { Point } from "@/lib/homography";
+import {
+  MEASUREMENT_PROPERTIES,
+  createMeasurement,
+  isMeasurement,
+  moveMeasurement,
+  reprojectMeasurements,
+  setMeasurementPoints,
+} from "@/lib/measurement";
+import {
+  OFFSIDE_PROPERTIES,
+  attachOffsideControls,
+  createOffside,
+  isOffside,
+  reprojectOffsides,
+  setOffsideAttacker,
+} from "@/lib/offside";
+import {
+  CHAIN_PROPERTIES,
+  attachChainControls,
+  createChain,
+  isChain,
+  moveChain,
+  reprojectChains,
+  setChainPoints,
+} from "@/lib/player-chain";
+import {
+  SPOTLIGHT_PROPERTIES,
+  createSpotlight,
+  isSpotlight,
+  moveSpotlight,
+  reprojectSpotlights,
+  type SpotlightOptions,
+} from "@/lib/spotlight";
+import {
+  ANCHOR_PROPERTIES,
+  attachGroundControls,
+  createGroundObject,
+  setGroundShape,
+  reprojectAnchored,
+  toPitchAnchored,
+  updatePitchAnchor,
+  type AnchoredObject,
+} from "@/lib/pitch-anchoring";
+import { DEFAULT_PITCH, type PitchModel } from "@/lib/pitch";
+import {
+  MOTION_PROPERTIES,
+  addMotionKeyframe,
+  applyMotion,
+  clearMotion,
+  type MovingObject,
+} from "@/lib/annotation-motion";
+import {
+  DEFAULT_FADE,
+  TIMING_PROPERTIES,
+  applyTiming,
+  type AnnotationTiming,
+  type TimedObject,
+} from "@/lib/annotation-timing";
+import { IDENTITY_VIEW, type FrameSize, type ViewTransform } from "@/lib/view";
 
 interface DrawingCanvasProps {
   width: number;
   height: number;
-  activeTool: "select" | "draw" | "rectangle" | "circle" | "line" | "triangle" | "text";
+  activeTool: DrawingTool;
   activeColor: string;
   brushSize: number;
   onAnnotationChange?: (annotations: any) => void;
+  onToolChange?: (tool: "select") => void; // Escape drops the current tool
   className?: string;
-  homography?: number[] | null;
-  inverseHomography?: number[] | null;
+  camera?: CameraModel | null;
+  view?: ViewTransform; // video pixels to canvas pixels
+  frame?: FrameSize; // native video size, defaults to the whole canvas
+  interactive?: boolean; // false while calibrating: keeps the drawings, ignores shortcuts
+  anchorToPitch?: boolean; // new drawings stay on the grass they were drawn on
+  arrowOptions?: ArrowOptions;
+  spotlightOptions?: SpotlightOptions;
+  measureAngles?: boolean; // measurements also give the angle to the touchline
+  linkBand?: boolean; // player links are shaded along their length
+  offsideAttacker?: boolean; // offside lines take a second click for the attacker
+  pitch?: PitchModel;
+  clipTime?: number | null; // playhead in seconds into the selected clip, null without one
+  clipDuration?: number;
+  onSelectionChange?: (selection: SelectedAnnotation | null) => void; // null when nothing is selected
+}
+
+// Timing and motion of the first selected object
+export interface SelectedAnnotation {
+  timing: AnnotationTiming;
+  keyframes: number[]; // seconds into the clip
 }
 
 export interface DrawingCanvasRef {
@@ -21,9 +123,90 @@ export interface DrawingCanvasRef {
   undo: () => void;
   redo: () => void;
   saveAnnotations: () => string;
+  loadAnnotations: (json: string) => Promise<void>;
   exportAsImage: () => void;
+  updateSelectedTiming: (change: Partial<AnnotationTiming>) => void;
+  addSelectedKeyframe: () => void; // where the selection is now, at the playhead
+  clearSelectedMotion: () => void;
 }
 
+// Custom properties to keep when serializing a canvas
+const CUSTOM_PROPERTIES = [
+  ...ANCHOR_PROPERTIES,
+  ...ARROW_PROPERTIES,
+  ...SPOTLIGHT_PROPERTIES,
+  ...MEASUREMENT_PROPERTIES,
+  ...CHAIN_PROPERTIES,
+  ...OFFSIDE_PROPERTIES,
+  ...TIMING_PROPERTIES,
+  ...MOTION_PROPERTIES,
+];
+
+const DEFAULT_ARROW: ArrowOptions = { style: "pass", head: "end", curved: false, perspective: false };
+const DEFAULT_SPOTLIGHT: SpotlightOptions = { beam: true, label: "" };
+
+const serialize = (canvas: FabricCanvas) => JSON.stringify(canvas.toObject(CUSTOM_PROPERTIES));
+
+type DragTool = Exclude<DrawingTool, "select" | "draw">;
+
+// Tools that place an object by pressing and dragging on the video
+const isDragTool = (tool: DrawingTool): tool is DragTool => tool !== "select" && tool !== "draw";
+
+// Shorter drags, in screen pixels, are stray clicks rather than shapes
+const MIN_DRAG = 4;
+// Clicks this close to a polygon's first corner close it
+const CLOSE_DISTANCE = 10;
+
+// Box spanned by a drag; with an aspect (height / width) it keeps that shape
+const getDragBox = (from: Point, to: Point, aspect?: number) => {
+  let dx = to.x - from.x;
+  let dy = to.y - from.y;
+  if (aspect) {
+    const size = Math.max(Math.abs(dx), Math.abs(dy) / aspect);
+    dx = Math.sign(dx || 1) * size;
+    dy = Math.sign(dy || 1) * size * aspect;
+  }
+  return { left: Math.min(from.x, from.x + dx), top: Math.min(from.y, from.y + dy), width: Math.abs(dx), height: Math.abs(dy) };
+};
+
+// Line end snapped to the nearest 45° direction
+const snapDirection = (from: Point, to: Point): Point => {
+  const step = Math.PI / 4;
+  const angle = Math.round(Math.atan2(to.y - from.y, to.x - from.x) / step) * step;
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  return { x: from.x + length * Math.cos(angle), y: from.y + length * Math.sin(angle) };
+};
+
+// Reshapes the object being dragged out; Shift gives squares, circles,
+// equilateral triangles and 45° lines
+const updateDraft = (object: FabricObject, from: Point, to: Point, constrain: boolean) => {
+  if (object instanceof Line) {
+    const end = constrain ? snapDirection(from, to) : to;
+    object.set({ x1: from.x, y1: from.y, x2: end.x, y2: end.y });
+  } else if (object instanceof IText) {
+    // Dragging down sets the font size
+    object.set({ fontSize: Math.max(8, Math.abs(to.y - from.y)) });
+  } else {
+    const aspect = object instanceof Polygon ? Math.sqrt(3) / 2 : 1;
+    const box = getDragBox(from, to, constrain ? aspect : undefined);
+    if (object instanceof Ellipse) {
+      object.set({ left: box.left, top: box.top, rx: box.width / 2, ry: box.height / 2 });
+    } else if (object instanceof Polygon) {
+      object.set({
+        points: [
+          new FabricPoint(box.left + box.width / 2, box.top),
+          new FabricPoint(box.left + box.width, box.top + box.height),
+          new FabricPoint(box.left, box.top + box.height),
+        ],
+      });
+      object.setBoundingBox(true);
+    } else {
+      object.set(box);
+    }
+  }
+  object.setCoords();
+};
+
 export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({
   width,
   height,
@@ -31,15 +214,53 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({
   activeColor,
   brushSize,
   onAnnotationChange,
+  onToolChange,
   className,
-  homography,
-  inverseHomography
+  camera,
+  view = IDENTITY_VIEW,
+  frame,
+  interactive = true,
+  anchorToPitch = false,
+  arrowOptions = DEFAULT_ARROW,
+  spotlightOptions = DEFAULT_SPOTLIGHT,
+  measureAngles = false,
+  linkBand = false,
+  offsideAttacker = false,
+  pitch = DEFAULT_PITCH,
+  clipTime = null,
+  clipDuration = 0,
+  onSelectionChange
 }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [fabricCanvas, setFabricCanvas] = useState<FabricCanvas | null>(null);
   const [history, setHistory] = useState<string[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
+  const cameraRef = useRef(camera);
+  cameraRef.current = camera;
+  const pitchRef = useRef(pitch);
+  pitchRef.current = pitch;
+  const anchorToPitchRef = useRef(anchorToPitch);
+  anchorToPitchRef.current = anchorToPitch;
+  const clipTimeRef = useRef(clipTime);
+  clipTimeRef.current = clipTime;
+  const clipDurationRef = useRef(clipDuration);
+  clipDurationRef.current = clipDuration;
+  // Loaded objects keep the timing they were saved with
+  const restoringRef = useRef(false);
+  // Object being dragged out with a shape or text tool
+  const draftRef = useRef<{ object: FabricObject; from: Point; vertices?: Point[] } | null>(null);
+
+  // Pitch-anchored drawings are converted to field geometry as they are created
+  const prepareAnnotation = (object: FabricObject) =>
+    anchorToPitchRef.current && cameraRef.current ? toPitchAnchored(object, cameraRef.current) : object;
 
+  // Displayed video frame in canvas pixels, inside any letterbox bars
+  const content = frame
+    ? { left: view.offsetX, top: view.offsetY, width: frame.width * view.scaleX, height: frame.height * view.scaleY }
+    : { left: 0, top: 0, width, height };
+
+  // Created once: objects live in video pixels, so a resize only changes the
+  // viewport and never the drawings
   useEffect(() => {
     if (!canvasRef.current) return;
 
@@ -62,7 +283,33 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({
     return () => {
       canvas.dispose();
     };
-  }, [width, height]);
+  }, []);
+
+  useEffect(() => {
+    if (!fabricCanvas) return;
+    fabricCanvas.setDimensions({ width, height });
+    fabricCanvas.setViewportTransform([view.scaleX, 0, 0, view.scaleY, view.offsetX, view.offsetY]);
+  }, [fabricCanvas, width, height, view]);
+
+  // A recalibration or a camera keyframe moves the anchored drawings along,
+  // and offside lines follow the pitch width
+  useEffect(() => {
+    if (!fabricCanvas || !camera) return;
+    reprojectAnchored(fabricCanvas, camera);
+    reprojectArrows(fabricCanvas, camera);
+    reprojectSpotlights(fabricCanvas, camera);
+    reprojectMeasurements(fabricCanvas, camera);
+    reprojectChains(fabricCanvas, camera);
+    reprojectOffsides(fabricCanvas, camera, pitch);
+  }, [fabricCanvas, camera, pitch]);
+
+  useEffect(() => {
+    if (fabricCanvas) applyTiming(fabricCanvas, clipTime, draftRef.current?.object);
+  }, [fabricCanvas, clipTime]);
+
+  useEffect(() => {
+    if (fabricCanvas && clipTime !== null) applyMotion(fabricCanvas, clipTime, camera, pitch);
+  }, [fabricCanvas, clipTime, camera, pitch]);
 
   useEffect(() => {
     if (!fabricCanvas) return;
@@ -76,138 +323,413 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({
       fabricCanvas.freeDrawingBrush.color = activeColor;
       fabricCanvas.freeDrawingBrush.width = brushSize;
     }
+  }, [activeTool, activeColor, brushSize, fabricCanvas]);
+
+  const cancelDraft = () => {
+    if (!draftRef.current) return;
+    fabricCanvas?.remove(draftRef.current.object);
+    draftRef.current = null;
+  };
+
+  // A half-drawn object goes with the tool it was drawn with
+  useEffect(() => () => {
+    if (!fabricCanvas || !draftRef.current) return;
+    fabricCanvas.remove(draftRef.current.object);
+    draftRef.current = null;
+  }, [fabricCanvas, activeTool]);
+
+  // Shape and text tools draw over existing objects instead of picking them up,
+  // and stay active for the next drag until Escape
+  useEffect(() => {
+    if (!fabricCanvas || !isDragTool(activeTool)) return;
 
-    // Handle shape creation with field-aware sizing if homography is available
-    const getFieldAwareSize = (pixelSize: number) => {
-      if (!homography) return pixelSize;
-      // Transform a reference distance to get field-aware scaling
-      const p1 = { x: width / 2, y: height / 2 };
-      const p2 = { x: width / 2 + pixelSize, y: height / 2 };
-      const realP1 = Homography.transform(p1, homography);
-      const realP2 = Homography.transform(p2, homography);
-      const realDistance = Math.hypot(realP2.x - realP1.x, realP2.y - realP1.y);
-      // Keep size reasonable (1-5 meters on field)
-      return Math.max(20, Math.min(100, pixelSize * (3 / Math.max(0.1, realDistance))));
+    fabricCanvas.skipTargetFind = true;
+    fabricCanvas.defaultCursor = "crosshair";
+    fabricCanvas.discardActiveObject();
+    fabricCanvas.requestRenderAll();
+
+    const style = {
+      fill: "transparent",
+      stroke: activeColor,
+      strokeWidth: brushSize,
+      cornerStyle: "circle" as const,
+      cornerColor: activeColor,
+      cornerSize: 8,
     };
+    // Ground zones are shaded in a see-through version of the colour
+    const groundStyle = { ...style, fill: `${activeColor}33` };
+    const screenDistance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y) * view.scaleX;
 
-    if (activeTool === "rectangle") {
-      const size = getFieldAwareSize(80);
-      const rect = new Rect({
-        left: width / 2 - size / 2,
-        top: height / 2 - size / 2,
-        fill: "transparent",
-        stroke: activeColor,
-        strokeWidth: brushSize,
-        width: size,
-        height: size * 0.6,
-        cornerStyle: "circle",
-        cornerColor: activeColor,
-        cornerSize: 8,
-      });
-      fabricCanvas.add(rect);
-      fabricCanvas.setActiveObject(rect);
-      saveToHistory();
-    } else if (activeTool === "circle") {
-      const radius = getFieldAwareSize(50);
-      const circle = new Circle({
-        left: width / 2 - radius,
-        top: height / 2 - radius,
-        fill: "transparent",
-        stroke: activeColor,
-        strokeWidth: brushSize,
-        radius: radius,
-        cornerStyle: "circle",
-        cornerColor: activeColor,
-        cornerSize: 8,
-      });
-      fabricCanvas.add(circle);
-      fabricCanvas.setActiveObject(circle);
+    const createDraft = (at: Point): FabricObject | null => {
+      const camera = cameraRef.current;
+      switch (activeTool) {
+        case "rectangle":
+          return new Rect({ ...style, left: at.x, top: at.y, width: 0, height: 0 });
+        case "circle":
+          return new Ellipse({ ...style, left: at.x, top: at.y, rx: 0, ry: 0 });
+        case "line":
+          return new Line([at.x, at.y, at.x, at.y], style);
+        case "arrow":
+          return createArrow(at, arrowOptions, camera, anchorToPitchRef.current, style);
+        case "triangle":
+          return new Polygon([at, at, at], style);
+        case "text":
+          return new IText("Click to edit", {
+            left: at.x,
+            top: at.y,
+            fill: activeColor,
+            fontSize: Math.max(16, brushSize * 4),
+            fontFamily: "Arial",
+            cornerStyle: "circle",
+            cornerColor: activeColor,
+            cornerSize: 8,
+          });
+        case "ground-circle":
+        case "ground-rect": {
+          if (!camera) return null;
+          const from = projectToField(camera, at);
+          const kind = activeTool === "ground-circle" ? "circle" : "rect";
+          return createGroundObject(groundShapeFromDrag(kind, from, from, false), camera, groundStyle);
+        }
+        case "zone":
+          // Outline in progress; becomes a ground zone once closed
+          return camera ? new Polyline([at, at], style) : null;
+        case "measure":
+          return camera
+            ? createMeasurement([projectToField(camera, at)], { showAngle: measureAngles, color: activeColor, fontSize: 14 / view.scaleX }, camera)
+            : null;
+        case "link":
+          return camera
+            ? createChain([projectToField(camera, at)], { band: linkBand, color: activeColor, fontSize: 14 / view.scaleX }, camera)
+            : null;
+        case "spotlight":
+        case "offside":
+          return null; // placed with a click instead
+      }
+    };
+
+    const finishVertices = () => {
+      const draft = draftRef.current;
+      const camera = cameraRef.current;
+      if (!draft?.vertices) return;
+      draftRef.current = null;
+
+      // Measurements and links already are the finished object, less the point
+      // under the cursor
+      const { object, vertices } = draft;
+      if ((isMeasurement(object) || isChain(object)) && camera && vertices.length >= 2) {
+        if (isChain(object)) {
+          setChainPoints(object, vertices, camera);
+          attachChainControls(object, () => cameraRef.current);
+        } else {
+          setMeasurementPoints(object, vertices, camera);
+        }
+        object.set({ selectable: true, evented: true });
+        saveToHistory();
+        return;
+      }
+
+      fabricCanvas.remove(object);
+      if (!camera || vertices.length < 3 || activeTool !== "zone") return;
+
+      const zone = createGroundObject({ kind: "polygon", vertices }, camera, groundStyle);
+      attachGroundControls(zone, () => cameraRef.current);
+      fabricCanvas.add(zone);
       saveToHistory();
-    } else if (activeTool === "line") {
-      const lineLength = getFieldAwareSize(100);
-      const startX = width / 2 - lineLength / 2;
-      const endX = width / 2 + lineLength / 2;
-      const centerY = height / 2;
-      const line = new Line([startX, centerY, endX, centerY], {
-        stroke: activeColor,
-        strokeWidth: brushSize,
-        selectable: true,
-        cornerStyle: "circle",
-        cornerColor: activeColor,
-        cornerSize: 8,
-      });
-      fabricCanvas.add(line);
-      fabricCanvas.setActiveObject(line);
+    };
+
+    // Zones, measurements and player links are clicked out point by point and
+    // finished with a double click; a zone also closes on its first corner
+    const addVertex = (at: Point) => {
+      const camera = cameraRef.current;
+      const draft = draftRef.current;
+      if (!camera) return;
+      const vertex = projectToField(camera, at);
+      if (!isFinite(vertex.x) || !isFinite(vertex.y)) return;
+
+      if (!draft?.vertices) {
+        const object = createDraft(at);
+        if (!object) return;
+        object.set({ selectable: false, evented: false });
+        draftRef.current = { object, from: at, vertices: [vertex] };
+        fabricCanvas.add(object);
+        return;
+      }
+
+      const corners = draft.vertices.map(v => projectToImage(camera, v));
+      if (activeTool === "zone" && corners.length >= 3 && screenDistance(corners[0], at) < CLOSE_DISTANCE) {
+        finishVertices();
+      } else if (screenDistance(corners[corners.length - 1], at) >= CLOSE_DISTANCE) {
+        draft.vertices.push(vertex);
+      }
+    };
+
+    // Spotlights go on with a click at the player's feet
+    const placeSpotlight = (at: Point) => {
+      const camera = cameraRef.current;
+      const spotlight = camera && createSpotlight(at, spotlightOptions, activeColor, camera);
+      if (!spotlight) {
+        toast(camera ? "Click on the pitch, at the player's feet" : "Calibrate the pitch first to draw on the ground");
+        return;
+      }
+      fabricCanvas.add(spotlight);
       saveToHistory();
-    } else if (activeTool === "triangle") {
-      const size = getFieldAwareSize(80);
-      const triangle = new Polygon([
-        { x: size / 2, y: 0 },
-        { x: 0, y: size },
-        { x: size, y: size }
-      ], {
-        left: width / 2 - size / 2,
-        top: height / 2 - size / 2,
-        fill: "transparent",
-        stroke: activeColor,
-        strokeWidth: brushSize,
-        cornerStyle: "circle",
-        cornerColor: activeColor,
-        cornerSize: 8,
-      });
-      fabricCanvas.add(triangle);
-      fabricCanvas.setActiveObject(triangle);
+    };
+
+    // Offside lines go on with a click at the last defender's feet, then
+    // another at the attacker's when comparing the two
+    const placeOffside = (at: Point) => {
+      const camera = cameraRef.current;
+      const draft = draftRef.current;
+      if (draft && isOffside(draft.object) && camera) {
+        draftRef.current = null;
+        setOffsideAttacker(draft.object, at, camera, pitch);
+        draft.object.set({ selectable: true, evented: true });
+        attachOffsideControls(draft.object, () => cameraRef.current, () => pitchRef.current);
+        saveToHistory();
+        return;
+      }
+
+      const options = { color: activeColor, fontSize: 14 / view.scaleX };
+      const offside = camera && createOffside(at, options, camera, pitch);
+      if (!offside) {
+        toast(camera ? "Click on the pitch, at the last defender's feet" : "Calibrate the pitch first to draw on the ground");
+        return;
+      }
+      fabricCanvas.add(offside);
+      if (offsideAttacker) {
+        offside.set({ selectable: false, evented: false });
+        draftRef.current = { object: offside, from: at, vertices: [offside.offside.defender] };
+        return;
+      }
+      attachOffsideControls(offside, () => cameraRef.current, () => pitchRef.current);
       saveToHistory();
-    } else if (activeTool === "text") {
-      const fontSize = homography ? Math.max(12, getFieldAwareSize(20)) : Math.max(16, brushSize * 4);
-      const text = new IText("Click to edit", {
-        left: width / 2 - 50,
-        top: height / 2 - fontSize / 2,
-        fill: activeColor,
-        fontSize: fontSize,
-        fontFamily: "Arial",
-        cornerStyle: "circle",
-        cornerColor: activeColor,
-        cornerSize: 8,
-      });
-      fabricCanvas.add(text);
-      fabricCanvas.setActiveObject(text);
+    };
+
+    const handleMouseDown = ({ scenePoint }: TPointerEventInfo) => {
+      const at = { x: scenePoint.x, y: scenePoint.y };
+      if (activeTool === "zone" || activeTool === "measure" || activeTool === "link") {
+        addVertex(at);
+        return;
+      }
+      if (activeTool === "spotlight") {
+        placeSpotlight(at);
+        return;
+      }
+      if (activeTool === "offside") {
+        placeOffside(at);
+        return;
+      }
+      if (draftRef.current) return;
+      const object = createDraft(at);
+      if (!object) {
+        toast("Calibrate the pitch first to draw on the ground");
+        return;
+      }
+      object.set({ selectable: false, evented: false });
+      draftRef.current = { object, from: at };
+      fabricCanvas.add(object);
+    };
+
+    const handleMouseMove = ({ e, scenePoint }: TPointerEventInfo) => {
+      const draft = draftRef.current;
+      const camera = cameraRef.current;
+      if (!draft) return;
+
+      if (isMeasurement(draft.object) && draft.vertices && camera) {
+        // Live distance to the cursor
+        setMeasurementPoints(draft.object, [...draft.vertices, projectToField(camera, scenePoint)], camera);
+      } else if (isChain(draft.object) && draft.vertices && camera) {
+        setChainPoints(draft.object, [...draft.vertices, projectToField(camera, scenePoint)], camera);
+      } else if (isOffside(draft.object) && camera) {
+        // The attacker's line follows the cursor
+        setOffsideAttacker(draft.object, scenePoint, camera, pitch);
+      } else if (draft.vertices && camera) {
+        const corners = [...draft.vertices.map(v => projectToImage(camera, v)), scenePoint];
+        draft.object.set({ points: corners.map(p => new FabricPoint(p.x, p.y)) });
+        (draft.object as Polyline).setBoundingBox(true);
+      } else if (screenDistance(scenePoint, draft.from) < MIN_DRAG) {
+        return;
+      } else if (isArrow(draft.object)) {
+        setArrowEnds(draft.object, draft.from, e.shiftKey ? snapDirection(draft.from, scenePoint) : scenePoint, camera);
+      } else if (draft.object instanceof Polygon && activeTool.startsWith("ground-") && camera) {
+        const kind = activeTool === "ground-circle" ? "circle" : "rect";
+        const shape = groundShapeFromDrag(kind, projectToField(camera, draft.from), projectToField(camera, scenePoint), e.shiftKey);
+        setGroundShape(draft.object, shape, camera);
+      } else {
+        updateDraft(draft.object, draft.from, scenePoint, e.shiftKey);
+      }
+      fabricCanvas.requestRenderAll();
+    };
+
+    const handleMouseUp = ({ scenePoint }: TPointerEventInfo) => {
+      const draft = draftRef.current;
+      if (!draft || draft.vertices) return;
+      draftRef.current = null;
+      const { object, from } = draft;
+      object.set({ selectable: true, evented: true });
+
+      // A click places text but no shape
+      if (screenDistance(scenePoint, from) < MIN_DRAG && !(object instanceof IText)) {
+        fabricCanvas.remove(object);
+        return;
+      }
+
+      // Ground shapes and arrows are already placed for the calibration
+      if ((object as AnchoredObject).groundShape || isArrow(object)) {
+        if (isArrow(object)) attachArrowControls(object, () => cameraRef.current);
+        else attachGroundControls(object, () => cameraRef.current);
+        saveToHistory();
+        return;
+      }
+
+      const placed = prepareAnnotation(object);
+      if (placed !== object) {
+        fabricCanvas.remove(object);
+        fabricCanvas.add(placed);
+      }
+      if (placed instanceof IText) {
+        fabricCanvas.setActiveObject(placed);
+        placed.enterEditing();
+        placed.selectAll();
+      }
       saveToHistory();
-    }
-  }, [activeTool, activeColor, brushSize, fabricCanvas]);
+    };
+
+    fabricCanvas.on("mouse:down", handleMouseDown);
+    fabricCanvas.on("mouse:move", handleMouseMove);
+    fabricCanvas.on("mouse:up", handleMouseUp);
+    fabricCanvas.on("mouse:dblclick", finishVertices);
+
+    return () => {
+      fabricCanvas.off("mouse:down", handleMouseDown);
+      fabricCanvas.off("mouse:move", handleMouseMove);
+      fabricCanvas.off("mouse:up", handleMouseUp);
+      fabricCanvas.off("mouse:dblclick", finishVertices);
+      fabricCanvas.skipTargetFind = false;
+      fabricCanvas.defaultCursor = "default";
+    };
+  }, [
+    fabricCanvas,
+    activeTool,
+    activeColor,
+    brushSize,
+    arrowOptions,
+    spotlightOptions,
+    measureAngles,
+    linkBand,
+    offsideAttacker,
+    pitch,
+    view,
+    history,
+    historyIndex,
+  ]);
 
   const saveToHistory = () => {
     if (!fabricCanvas) return;
-    const canvasState = JSON.stringify(fabricCanvas.toJSON());
+    const canvasState = serialize(fabricCanvas);
     const newHistory = history.slice(0, historyIndex + 1);
     newHistory.push(canvasState);
     setHistory(newHistory);
     setHistoryIndex(newHistory.length - 1);
   };
 
+  // Untimed objects show through the whole clip
+  const getSelection = (): SelectedAnnotation | null => {
+    const [object] = (fabricCanvas?.getActiveObjects() ?? []) as (TimedObject & MovingObject)[];
+    if (!object) return null;
+    return {
+      timing: object.timing ?? { in: 0, out: clipDurationRef.current, fade: 0 },
+      keyframes: object.motion?.map(k => k.time) ?? [],
+    };
+  };
+
+  const updateSelectedTiming = (change: Partial<AnnotationTiming>) => {
+    if (!fabricCanvas) return;
+    const objects = fabricCanvas.getActiveObjects() as TimedObject[];
+    if (objects.length === 0) return;
+    for (const object of objects) {
+      object.timing = { ...(object.timing ?? { in: 0, out: clipDurationRef.current, fade: 0 }), ...change };
+    }
+    applyTiming(fabricCanvas, clipTimeRef.current, draftRef.current?.object);
+    onSelectionChange?.(getSelection());
+    saveToHistory();
+  };
+
+  // Keyframes are timed within the clip, so they need one
+  const updateSelectedMotion = (update: (object: MovingObject, time: number) => void) => {
+    const time = clipTimeRef.current;
+    if (!fabricCanvas || time === null) return;
+    const objects = fabricCanvas.getActiveObjects() as MovingObject[];
+    if (objects.length === 0) return;
+    for (const object of objects) update(object, time);
+    onSelectionChange?.(getSelection());
+    saveToHistory();
+  };
+
+  const addSelectedKeyframe = () => updateSelectedMotion(addMotionKeyframe);
+  const clearSelectedMotion = () => updateSelectedMotion(clearMotion);
+
   useEffect(() => {
     if (!fabricCanvas) return;
 
     const handleCanvasChange = () => {
-      const annotations = fabricCanvas.toJSON();
+      const annotations = fabricCanvas.toObject(CUSTOM_PROPERTIES);
       onAnnotationChange?.(annotations);
     };
 
-    const handleObjectModified = () => {
+    // New drawings in a clip show from the playhead to the end of the clip.
+    // With the playhead outside the clip they show throughout instead.
+    const handleObjectAdded = ({ target }: { target: TimedObject }) => {
+      const time = clipTimeRef.current;
+      const duration = clipDurationRef.current;
+      if (!restoringRef.current && time !== null && time >= 0 && time <= duration && !target.timing) {
+        target.timing = { in: time, out: duration, fade: DEFAULT_FADE };
+      }
+      handleCanvasChange();
+    };
+
+    const handleSelectionChange = () => onSelectionChange?.(getSelection());
+
+    const handleObjectModified = ({ target }: { target: AnchoredObject }) => {
+      // Dragged to another spot on the pitch
+      const camera = cameraRef.current;
+      if (isArrow(target)) moveArrow(target, camera);
+      else if (camera && isSpotlight(target)) moveSpotlight(target, camera);
+      else if (camera && isMeasurement(target)) moveMeasurement(target, camera);
+      else if (camera && isChain(target)) moveChain(target, camera);
+      else if (camera) updatePitchAnchor(target, camera);
+      // Moving an object that already has keyframes keys it at the playhead
+      const time = clipTimeRef.current;
+      if (time !== null && (target as MovingObject).motion?.length) {
+        addMotionKeyframe(target, time);
+        onSelectionChange?.(getSelection());
+      }
       saveToHistory();
     };
 
-    const handlePathCreated = () => {
+    const handlePathCreated = ({ path }: { path: FabricObject }) => {
+      const placed = prepareAnnotation(path);
+      if (placed !== path) {
+        fabricCanvas.remove(path);
+        fabricCanvas.add(placed);
+      }
       saveToHistory();
     };
 
-    fabricCanvas.on("object:added", handleCanvasChange);
+    fabricCanvas.on("object:added", handleObjectAdded);
     fabricCanvas.on("object:modified", handleObjectModified);
     fabricCanvas.on("object:removed", handleCanvasChange);
     fabricCanvas.on("path:created", handlePathCreated);
+    fabricCanvas.on("selection:created", handleSelectionChange);
+    fabricCanvas.on("selection:updated", handleSelectionChange);
+    fabricCanvas.on("selection:cleared", handleSelectionChange);
 
     // Keyboard shortcuts
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (!interactive) return;
+      // Keys belong to the field being typed in, text on the canvas included
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
       if (e.ctrlKey || e.metaKey) {
         switch (e.key.toLowerCase()) {
           case 'z':
@@ -237,6 +759,10 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({
           case 'backspace':
             deleteSelected();
             break;
+          case 'escape':
+            cancelDraft();
+            if (activeTool !== "select") onToolChange?.("select");
+            break;
         }
       }
     };
@@ -244,13 +770,16 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({
     window.addEventListener('keydown', handleKeyDown);
 
     return () => {
-      fabricCanvas.off("object:added", handleCanvasChange);
+      fabricCanvas.off("object:added", handleObjectAdded);
       fabricCanvas.off("object:modified", handleObjectModified);
       fabricCanvas.off("object:removed", handleCanvasChange);
       fabricCanvas.off("path:created", handlePathCreated);
+      fabricCanvas.off("selection:created", handleSelectionChange);
+      fabricCanvas.off("selection:updated", handleSelectionChange);
+      fabricCanvas.off("selection:cleared", handleSelectionChange);
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [fabricCanvas, onAnnotationChange, history, historyIndex]);
+  }, [fabricCanvas, onAnnotationChange, onToolChange, onSelectionChange, activeTool, history, historyIndex, interactive]);
 
   const clearCanvas = () => {
     if (!fabricCanvas) return;
@@ -269,39 +798,64 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({
     }
   };
 
+  // Anchored objects are placed for the calibration in effect now, which may
+  // differ from the one they were saved under
+  const restore = async (json: string) => {
+    if (!fabricCanvas) return;
+    restoringRef.current = true;
+    try {
+      await fabricCanvas.loadFromJSON(json);
+    } finally {
+      restoringRef.current = false;
+    }
+    for (const object of fabricCanvas.getObjects()) {
+      if (isArrow(object)) attachArrowControls(object, () => cameraRef.current);
+      else if (isChain(object)) attachChainControls(object, () => cameraRef.current);
+      else if (isOffside(object)) attachOffsideControls(object, () => cameraRef.current, () => pitchRef.current);
+      else if (isSpotlight(object) || isMeasurement(object)) object.hasControls = false;
+      else attachGroundControls(object, () => cameraRef.current);
+    }
+    if (cameraRef.current) {
+      reprojectAnchored(fabricCanvas, cameraRef.current);
+      reprojectArrows(fabricCanvas, cameraRef.current);
+      reprojectSpotlights(fabricCanvas, cameraRef.current);
+      reprojectMeasurements(fabricCanvas, cameraRef.current);
+      reprojectChains(fabricCanvas, cameraRef.current);
+      reprojectOffsides(fabricCanvas, cameraRef.current, pitchRef.current);
+    }
+    if (clipTimeRef.current !== null) applyMotion(fabricCanvas, clipTimeRef.current, cameraRef.current, pitchRef.current);
+    applyTiming(fabricCanvas, clipTimeRef.current, draftRef.current?.object);
+  };
+
   const undo = () => {
     if (!fabricCanvas || historyIndex <= 0) return;
     const prevState = history[historyIndex - 1];
     setHistoryIndex(historyIndex - 1);
-    fabricCanvas.loadFromJSON(prevState, () => {
-      fabricCanvas.renderAll();
-      toast("Undone");
-    });
+    restore(prevState).then(() => toast("Undone"));
   };
 
   const redo = () => {
     if (!fabricCanvas || historyIndex >= history.length - 1) return;
     const nextState = history[historyIndex + 1];
     setHistoryIndex(historyIndex + 1);
-    fabricCanvas.loadFromJSON(nextState, () => {
-      fabricCanvas.renderAll();
-      toast("Redone");
-    });
+    restore(nextState).then(() => toast("Redone"));
   };
 
   const saveAnnotations = () => {
   if (!fabricCanvas) return "";
-  const json = JSON.stringify(fabricCanvas.toJSON());
+  const json = serialize(fabricCanvas);
   toast("Annotations saved");
   return json; // Just return — don't download
 };
 
   const exportAsImage = () => {
     if (!fabricCanvas) return;
+    // Cropped to the video frame at its native resolution
     const dataURL = fabricCanvas.toDataURL({
       format: 'png',
       quality: 1,
-      multiplier: 2
+      multiplier: 1 / view.scaleX,
+      ...content
     });
     const a = document.createElement('a');
     a.href = dataURL;
@@ -317,8 +871,12 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({
     undo,
     redo,
     saveAnnotations,
+    loadAnnotations: restore,
     exportAsImage,
-  }), [fabricCanvas, history, historyIndex]);
+    updateSelectedTiming,
+    addSelectedKeyframe,
+    clearSelectedMotion,
+  }), [fabricCanvas, history, historyIndex, view, content]);
 
   return (
     <canvas
@@ -330,6 +888,7 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({
         left: 0,
         pointerEvents: "auto",
         zIndex: 10,
+        clipPath: `inset(${content.top}px ${width - content.left - content.width}px ${height - content.top - content.height}px ${content.left}px)`,
       }}
     />
   );
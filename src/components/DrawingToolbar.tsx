@@ -16,17 +16,66 @@ import {
   Undo,
   Redo,
   Save,
-  Download
+  Download,
+  MapPin,
+  CircleDashed,
+  SquareDashed,
+  Pentagon,
+  MoveUpRight,
+  Ellipsis,
+  Waves,
+  Spline,
+  ArrowRight,
+  ArrowLeftRight,
+  Rotate3d,
+  Flashlight,
+  Ruler,
+  Waypoints,
+  Flag
 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import type { ArrowHead, ArrowStyle } from "@/lib/arrow-geometry";
+import type { ArrowOptions } from "@/lib/arrows";
+import type { SpotlightOptions } from "@/lib/spotlight";
 import { cn } from "@/lib/utils";
 
+export type DrawingTool =
+  | "select"
+  | "draw"
+  | "rectangle"
+  | "circle"
+  | "line"
+  | "arrow"
+  | "triangle"
+  | "text"
+  | "ground-circle"
+  | "ground-rect"
+  | "zone"
+  | "spotlight"
+  | "measure"
+  | "link"
+  | "offside";
+
 interface DrawingToolbarProps {
-  activeTool: "select" | "draw" | "rectangle" | "circle" | "line" | "triangle" | "text";
-  onToolChange: (tool: "select" | "draw" | "rectangle" | "circle" | "line" | "triangle" | "text") => void;
+  activeTool: DrawingTool;
+  onToolChange: (tool: DrawingTool) => void;
   activeColor: string;
   onColorChange: (color: string) => void;
   brushSize: number;
   onBrushSizeChange: (size: number) => void;
+  anchorToPitch: boolean;
+  onAnchorToPitchChange: (anchored: boolean) => void;
+  canDrawOnGround: boolean; // ground shapes need a calibration
+  arrowOptions: ArrowOptions;
+  onArrowOptionsChange: (options: ArrowOptions) => void;
+  spotlightOptions: SpotlightOptions;
+  onSpotlightOptionsChange: (options: SpotlightOptions) => void;
+  measureAngles: boolean;
+  onMeasureAnglesChange: (show: boolean) => void;
+  linkBand: boolean;
+  onLinkBandChange: (band: boolean) => void;
+  offsideAttacker: boolean;
+  onOffsideAttackerChange: (attacker: boolean) => void;
   onClear: () => void;
   onDelete: () => void;
   onUndo: () => void;
@@ -36,6 +85,18 @@ interface DrawingToolbarProps {
   className?: string;
 }
 
+const ARROW_STYLES: { id: ArrowStyle; name: string; icon: typeof Minus }[] = [
+  { id: "pass", name: "Pass (solid)", icon: Minus },
+  { id: "run", name: "Run (dashed)", icon: Ellipsis },
+  { id: "dribble", name: "Dribble (wavy)", icon: Waves },
+];
+
+const ARROW_HEADS: { id: ArrowHead; name: string; icon: typeof Minus }[] = [
+  { id: "end", name: "Head at the end", icon: ArrowRight },
+  { id: "both", name: "Heads at both ends", icon: ArrowLeftRight },
+  { id: "none", name: "No head", icon: Minus },
+];
+
 const PRESET_COLORS = [
   "#0EA5E9", // Primary blue
   "#10B981", // Accent green  
@@ -54,6 +115,19 @@ export const DrawingToolbar = ({
   onColorChange,
   brushSize,
   onBrushSizeChange,
+  anchorToPitch,
+  onAnchorToPitchChange,
+  canDrawOnGround,
+  arrowOptions,
+  onArrowOptionsChange,
+  spotlightOptions,
+  onSpotlightOptionsChange,
+  measureAngles,
+  onMeasureAnglesChange,
+  linkBand,
+  onLinkBandChange,
+  offsideAttacker,
+  onOffsideAttackerChange,
   onClear,
   onDelete,
   onUndo,
@@ -96,17 +170,27 @@ export const DrawingToolbar = ({
             size="sm"
             onClick={() => onToolChange("line")}
             className="h-8 w-8 p-0"
-            title="Line Tool (L)"
+            title="Line Tool (L): drag to draw, Shift snaps to 45°"
           >
             <Minus className="h-4 w-4" />
           </Button>
           
+          <Button
+            variant={activeTool === "arrow" ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onToolChange("arrow")}
+            className="h-8 w-8 p-0"
+            title="Arrow (A): drag to draw, Shift snaps to 45°"
+          >
+            <MoveUpRight className="h-4 w-4" />
+          </Button>
+          
           <Button
             variant={activeTool === "rectangle" ? "default" : "ghost"}
             size="sm"
             onClick={() => onToolChange("rectangle")}
             className="h-8 w-8 p-0"
-            title="Rectangle (R)"
+            title="Rectangle (R): drag to draw, Shift for a square"
           >
             <Square className="h-4 w-4" />
           </Button>
@@ -116,7 +200,7 @@ export const DrawingToolbar = ({
             size="sm"
             onClick={() => onToolChange("circle")}
             className="h-8 w-8 p-0"
-            title="Circle (C)"
+            title="Circle (C): drag to draw, Shift for a circle"
           >
             <Circle className="h-4 w-4" />
           </Button>
@@ -126,7 +210,7 @@ export const DrawingToolbar = ({
             size="sm"
             onClick={() => onToolChange("triangle")}
             className="h-8 w-8 p-0"
-            title="Triangle (T)"
+            title="Triangle (T): drag to draw, Shift for equilateral"
           >
             <Triangle className="h-4 w-4" />
           </Button>
@@ -136,19 +220,224 @@ export const DrawingToolbar = ({
             size="sm"
             onClick={() => onToolChange("text")}
             className="h-8 w-8 p-0"
-            title="Text Tool (X)"
+            title="Text Tool (X): click to type, drag to size"
           >
             <Type className="h-4 w-4" />
           </Button>
         </div>
+
+        {/* Shapes lying on the pitch, sized in meters */}
+        <div className="flex items-center gap-1 p-1 bg-muted rounded-md ml-1">
+          <Button
+            variant={activeTool === "ground-circle" ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onToolChange("ground-circle")}
+            disabled={!canDrawOnGround}
+            className="h-8 w-8 p-0"
+            title="Ground Circle: drag out the radius, Shift for whole meters"
+          >
+            <CircleDashed className="h-4 w-4" />
+          </Button>
+
+          <Button
+            variant={activeTool === "ground-rect" ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onToolChange("ground-rect")}
+            disabled={!canDrawOnGround}
+            className="h-8 w-8 p-0"
+            title="Ground Rectangle: drag along the pitch lines, Shift for a square"
+          >
+            <SquareDashed className="h-4 w-4" />
+          </Button>
+
+          <Button
+            variant={activeTool === "zone" ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onToolChange("zone")}
+            disabled={!canDrawOnGround}
+            className="h-8 w-8 p-0"
+            title="Zone: click the corners, double-click or click the first one to close; shows its area"
+          >
+            <Pentagon className="h-4 w-4" />
+          </Button>
+
+          <Button
+            variant={activeTool === "spotlight" ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onToolChange("spotlight")}
+            disabled={!canDrawOnGround}
+            className="h-8 w-8 p-0"
+            title="Player Spotlight: click at a player's feet"
+          >
+            <Flashlight className="h-4 w-4" />
+          </Button>
+
+          <Button
+            variant={activeTool === "measure" ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onToolChange("measure")}
+            disabled={!canDrawOnGround}
+            className="h-8 w-8 p-0"
+            title="Measure (M): click points along a path, double-click to finish"
+          >
+            <Ruler className="h-4 w-4" />
+          </Button>
+
+          <Button
+            variant={activeTool === "link" ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onToolChange("link")}
+            disabled={!canDrawOnGround}
+            className="h-8 w-8 p-0"
+            title="Link Players: click each player's feet in turn, double-click to finish"
+          >
+            <Waypoints className="h-4 w-4" />
+          </Button>
+
+          <Button
+            variant={activeTool === "offside" ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onToolChange("offside")}
+            disabled={!canDrawOnGround}
+            className="h-8 w-8 p-0"
+            title="Offside Line: click the last defender's feet"
+          >
+            <Flag className="h-4 w-4" />
+          </Button>
+        </div>
         
+        <Button
+          variant={anchorToPitch ? "default" : "outline"}
+          size="sm"
+          onClick={() => onAnchorToPitchChange(!anchorToPitch)}
+          className="h-8 w-8 p-0 ml-1"
+          title={anchorToPitch ? "Drawings stick to the pitch" : "Drawings stick to the screen"}
+        >
+          <MapPin className="h-4 w-4" />
+        </Button>
+
         {activeTool !== "select" && (
           <Badge variant="secondary" className="ml-2 text-xs">
-            {activeTool.charAt(0).toUpperCase() + activeTool.slice(1)}
+            {activeTool.charAt(0).toUpperCase() + activeTool.slice(1).replace("-", " ")}
           </Badge>
         )}
       </div>
 
+      {activeTool === "arrow" && (
+        <div className="flex items-center gap-1 p-1 bg-muted rounded-md">
+          {ARROW_STYLES.map(({ id, name, icon: Icon }) => (
+            <Button
+              key={id}
+              variant={arrowOptions.style === id ? "default" : "ghost"}
+              size="sm"
+              onClick={() => onArrowOptionsChange({ ...arrowOptions, style: id })}
+              className="h-8 w-8 p-0"
+              title={name}
+            >
+              <Icon className="h-4 w-4" />
+            </Button>
+          ))}
+
+          <Separator orientation="vertical" className="h-6 mx-1" />
+
+          <Button
+            variant={arrowOptions.curved ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onArrowOptionsChange({ ...arrowOptions, curved: !arrowOptions.curved })}
+            className="h-8 w-8 p-0"
+            title="Curved: drag the middle handle to bend it"
+          >
+            <Spline className="h-4 w-4" />
+          </Button>
+
+          {ARROW_HEADS.map(({ id, name, icon: Icon }) => (
+            <Button
+              key={id}
+              variant={arrowOptions.head === id ? "default" : "ghost"}
+              size="sm"
+              onClick={() => onArrowOptionsChange({ ...arrowOptions, head: id })}
+              className="h-8 w-8 p-0"
+              title={name}
+            >
+              <Icon className="h-4 w-4" />
+            </Button>
+          ))}
+
+          <Button
+            variant={arrowOptions.perspective ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onArrowOptionsChange({ ...arrowOptions, perspective: !arrowOptions.perspective })}
+            disabled={!canDrawOnGround}
+            className="h-8 w-8 p-0"
+            title="In perspective on the pitch"
+          >
+            <Rotate3d className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {activeTool === "spotlight" && (
+        <div className="flex items-center gap-1 p-1 bg-muted rounded-md">
+          <Button
+            variant={spotlightOptions.beam ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onSpotlightOptionsChange({ ...spotlightOptions, beam: !spotlightOptions.beam })}
+            className="h-8 px-2 text-xs"
+            title="Light beam above the ring"
+          >
+            Beam
+          </Button>
+          <Input
+            value={spotlightOptions.label}
+            onChange={(e) => onSpotlightOptionsChange({ ...spotlightOptions, label: e.target.value })}
+            placeholder="Name or number"
+            className="h-8 w-36 text-xs"
+          />
+        </div>
+      )}
+
+      {activeTool === "measure" && (
+        <div className="flex items-center gap-1 p-1 bg-muted rounded-md">
+          <Button
+            variant={measureAngles ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onMeasureAnglesChange(!measureAngles)}
+            className="h-8 px-2 text-xs"
+            title="Angle of each segment to the touchline"
+          >
+            Angle
+          </Button>
+        </div>
+      )}
+
+      {activeTool === "link" && (
+        <div className="flex items-center gap-1 p-1 bg-muted rounded-md">
+          <Button
+            variant={linkBand ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onLinkBandChange(!linkBand)}
+            className="h-8 px-2 text-xs"
+            title="Shaded band along the line"
+          >
+            Band
+          </Button>
+        </div>
+      )}
+
+      {activeTool === "offside" && (
+        <div className="flex items-center gap-1 p-1 bg-muted rounded-md">
+          <Button
+            variant={offsideAttacker ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onOffsideAttackerChange(!offsideAttacker)}
+            className="h-8 px-2 text-xs"
+            title="Second line at the attacker's feet, with the gap in centimeters"
+          >
+            Attacker
+          </Button>
+        </div>
+      )}
+
       <Separator orientation="vertical" className="h-8" />
 
       {/* Color Picker */}
@@ -4,14 +4,7 @@ import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Target, Circle, Goal, RotateCcw } from "lucide-react";
 import { toast } from "sonner";
-
-export type CalibrationMode = "away-goal" | "home-goal" | "center-circle";
-
-export interface CalibrationPoint {
-  x: number;
-  y: number;
-  label: string;
-}
+import type { CalibrationMode, CalibrationPoint } from "@/lib/calibration";
 
 interface FieldCalibrationProps {
   mode: CalibrationMode;
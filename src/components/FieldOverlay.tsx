@@ -1,28 +1,48 @@
 import { useEffect, useRef } from "react";
-import { Homography, type Point, getFieldReferencePoints } from "@/lib/homography";
-import type { CalibrationMode, CalibrationPoint } from "./FieldCalibration";
+import { clipPolygonToFront, clipSegmentToFront, projectToImage, type CameraModel } from "@/lib/camera";
+import type { Point } from "@/lib/homography";
+import { toView, type FrameSize, type ViewTransform } from "@/lib/view";
+import { getPitchLines, type PitchLine, type PitchModel } from "@/lib/pitch";
+import { getTacticalGrid, type GridLayer, type TacticalGrid } from "@/lib/tactical-grids";
 
 interface FieldOverlayProps {
   width: number;
   height: number;
-  calibrationMode: CalibrationMode;
-  calibrationPoints: CalibrationPoint[];
+  camera: CameraModel | null; // field meters to video pixels
+  view: ViewTransform;
+  frame: FrameSize; // native video size
+  pitch: PitchModel;
+  grids: TacticalGrid[];
   isVisible: boolean;
   className?: string;
 }
 
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+// Arcs become field-space polylines, 64 segments per full turn
+const arcPoints = (center: Point, radius: number, startAngle: number, endAngle: number): Point[] => {
+  const segments = Math.max(4, Math.ceil((Math.abs(endAngle - startAngle) / (2 * Math.PI)) * 64));
+  return Array.from({ length: segments + 1 }, (_, i) => {
+    const angle = startAngle + (i / segments) * (endAngle - startAngle);
+    return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+  });
+};
+
 export const FieldOverlay = ({
   width,
   height,
-  calibrationMode,
-  calibrationPoints,
+  camera,
+  view,
+  frame,
+  pitch,
+  grids,
   isVisible,
   className
 }: FieldOverlayProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => {
-    if (!canvasRef.current || !isVisible || calibrationPoints.length === 0) return;
+    if (!canvasRef.current || !isVisible) return;
 
     const canvas = canvasRef.current;
     const ctx = canvas.getContext('2d');
@@ -30,161 +50,126 @@ export const FieldOverlay = ({
 
     // Clear canvas
     ctx.clearRect(0, 0, width, height);
-
-    // Get field reference points based on calibration mode
-    const fieldPoints = getFieldReferencePoints(calibrationMode);
-    
-    // Convert calibration points to format needed for homography
-    const imagePoints: Point[] = calibrationPoints.map(p => ({ x: p.x, y: p.y }));
-    
-    if (imagePoints.length < fieldPoints.length) return;
-
-    // Compute homography from field coordinates to image coordinates
-    const homography = Homography.compute(fieldPoints, imagePoints);
-    if (!homography) return;
-
-    // Draw field elements based on calibration mode
-    drawFieldElements(ctx, homography, calibrationMode);
-  }, [width, height, calibrationMode, calibrationPoints, isVisible]);
-
-  const drawFieldElements = (ctx: CanvasRenderingContext2D, homography: number[], mode: CalibrationMode) => {
-    ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
-    ctx.lineWidth = 2;
-    ctx.setLineDash([]);
-
-    const L = 105; // Field length
-    const W = 68;  // Field width
-    const R = 9.15; // Center circle radius
-
-    const transformPoint = (p: Point) => Homography.transform(p, homography);
-
-    const drawLine = (p1: Point, p2: Point) => {
-      const tp1 = transformPoint(p1);
-      const tp2 = transformPoint(p2);
-      
-      if (isFinite(tp1.x) && isFinite(tp1.y) && isFinite(tp2.x) && isFinite(tp2.y)) {
-        ctx.beginPath();
-        ctx.moveTo(tp1.x, tp1.y);
-        ctx.lineTo(tp2.x, tp2.y);
-        ctx.stroke();
-      }
-    };
-
-    const drawCircle = (center: Point, radius: number) => {
-      const transformedCenter = transformPoint(center);
-      if (!isFinite(transformedCenter.x) || !isFinite(transformedCenter.y)) return;
-
-      // Approximate circle with many line segments
-      const segments = 64;
+    if (!camera) return;
+
+    // Lines running off the frame stop at its edge rather than in the letterbox bars
+    const origin = toView({ x: 0, y: 0 }, view);
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(origin.x, origin.y, frame.width * view.scaleX, frame.height * view.scaleY);
+    ctx.clip();
+    drawFieldElements(ctx, camera, view, getPitchLines(pitch), grids.map(grid => getTacticalGrid(grid, pitch)));
+    ctx.restore();
+  }, [width, height, camera, view, frame, pitch, grids, isVisible]);
+
+  const drawFieldElements = (
+    ctx: CanvasRenderingContext2D,
+    camera: CameraModel,
+    view: ViewTransform,
+    lines: PitchLine[],
+    gridLayers: GridLayer[]
+  ) => {
+    const transformPoint = (p: Point) => toView(projectToImage(camera, p), view);
+    const isDrawable = (p: Point) => isFinite(p.x) && isFinite(p.y);
+    // Straight field lines bend under lens distortion, so draw them in pieces
+    const lineSteps = camera.distortion ? 32 : 1;
+
+    // Every segment is cut where it passes behind the camera (w <= 0) instead of
+    // projecting through infinity onto the wrong side of the frame
+    const drawPolyline = (points: Point[], steps: number) => {
       ctx.beginPath();
-      for (let i = 0; i <= segments; i++) {
-        const angle = (i / segments) * 2 * Math.PI;
-        const p = {
-          x: center.x + radius * Math.cos(angle),
-          y: center.y + radius * Math.sin(angle)
-        };
-        const tp = transformPoint(p);
-        
-        if (isFinite(tp.x) && isFinite(tp.y)) {
-          if (i === 0) {
-            ctx.moveTo(tp.x, tp.y);
-          } else {
-            ctx.lineTo(tp.x, tp.y);
-          }
+      let connected = false;
+      for (let i = 1; i < points.length; i++) {
+        const clipped = clipSegmentToFront(camera, points[i - 1], points[i]);
+        if (!clipped) {
+          connected = false;
+          continue;
         }
+        const [from, to] = clipped;
+        if (!connected || from !== points[i - 1]) {
+          const start = transformPoint(from);
+          if (!isDrawable(start)) continue;
+          ctx.moveTo(start.x, start.y);
+        }
+        for (let step = 1; step <= steps; step++) {
+          const tp = transformPoint(lerp(from, to, step / steps));
+          if (isDrawable(tp)) ctx.lineTo(tp.x, tp.y);
+        }
+        connected = to === points[i];
       }
       ctx.stroke();
     };
 
-    const drawRectangle = (topLeft: Point, bottomRight: Point) => {
-      const topRight = { x: bottomRight.x, y: topLeft.y };
-      const bottomLeft = { x: topLeft.x, y: bottomRight.y };
-      
-      drawLine(topLeft, topRight);
-      drawLine(topRight, bottomRight);
-      drawLine(bottomRight, bottomLeft);
-      drawLine(bottomLeft, topLeft);
+    const drawSpot = (p: Point) => {
+      if (!clipSegmentToFront(camera, p, p)) return;
+      const tp = transformPoint(p);
+      if (isDrawable(tp)) {
+        ctx.beginPath();
+        ctx.arc(tp.x, tp.y, 3, 0, 2 * Math.PI);
+        ctx.fill();
+      }
     };
 
-    // Draw field elements based on mode
-    switch (mode) {
-      case "away-goal":
-        // Draw goal areas and penalty areas for away goal
-        // Small goal area (6-yard box)
-        drawRectangle(
-          { x: 0, y: W/2 - 9.16 },
-          { x: 5.5, y: W/2 + 9.16 }
-        );
-        
-        // Large goal area (18-yard box)
-        drawRectangle(
-          { x: 0, y: W/2 - 20.16 },
-          { x: 16.5, y: W/2 + 20.16 }
-        );
-        
-        // Penalty spot
-        const penaltySpot = transformPoint({ x: 11, y: W/2 });
-        if (isFinite(penaltySpot.x) && isFinite(penaltySpot.y)) {
-          ctx.beginPath();
-          ctx.arc(penaltySpot.x, penaltySpot.y, 3, 0, 2 * Math.PI);
-          ctx.fill();
+    const drawLines = (lines: PitchLine[], dash: number[]) => {
+      for (const line of lines) {
+        switch (line.type) {
+          case "line":
+            ctx.setLineDash(line.dashed ? dash : []);
+            drawPolyline([line.from, line.to], lineSteps);
+            break;
+          case "arc":
+            ctx.setLineDash([]);
+            drawPolyline(arcPoints(line.center, line.radius, line.startAngle, line.endAngle), 1);
+            break;
+          case "spot":
+            drawSpot(line.at);
+            break;
         }
-        
-        // Goal line
-        drawLine({ x: 0, y: 0 }, { x: 0, y: W });
-        break;
-
-      case "home-goal":
-        // Draw goal areas and penalty areas for home goal
-        // Small goal area (6-yard box)
-        drawRectangle(
-          { x: L - 5.5, y: W/2 - 9.16 },
-          { x: L, y: W/2 + 9.16 }
-        );
-        
-        // Large goal area (18-yard box)
-        drawRectangle(
-          { x: L - 16.5, y: W/2 - 20.16 },
-          { x: L, y: W/2 + 20.16 }
-        );
-        
-        // Penalty spot
-        const homePenaltySpot = transformPoint({ x: L - 11, y: W/2 });
-        if (isFinite(homePenaltySpot.x) && isFinite(homePenaltySpot.y)) {
+      }
+      ctx.setLineDash([]);
+    };
+
+    // Shaded zones first so the markings stay on top
+    for (const layer of gridLayers) {
+      for (const zone of layer.zones) {
+        if (zone.shaded) {
+          const edges = zone.corners.flatMap((p, i) => {
+            const next = zone.corners[(i + 1) % zone.corners.length];
+            return Array.from({ length: lineSteps }, (_, step) => lerp(p, next, step / lineSteps));
+          });
+          const polygon = clipPolygonToFront(camera, edges).map(transformPoint).filter(isDrawable);
+          if (polygon.length < 3) continue;
+          ctx.fillStyle = 'rgba(250, 204, 21, 0.15)';
           ctx.beginPath();
-          ctx.arc(homePenaltySpot.x, homePenaltySpot.y, 3, 0, 2 * Math.PI);
+          polygon.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+          ctx.closePath();
           ctx.fill();
         }
-        
-        // Goal line
-        drawLine({ x: L, y: 0 }, { x: L, y: W });
-        break;
-
-      case "center-circle":
-      default:
-        // Draw center circle and halfway line
-        drawCircle({ x: L/2, y: W/2 }, R);
-        
-        // Center spot
-        const centerSpot = transformPoint({ x: L/2, y: W/2 });
-        if (isFinite(centerSpot.x) && isFinite(centerSpot.y)) {
-          ctx.beginPath();
-          ctx.arc(centerSpot.x, centerSpot.y, 3, 0, 2 * Math.PI);
-          ctx.fill();
+        if (zone.label) {
+          const center = {
+            x: zone.corners.reduce((sum, p) => sum + p.x, 0) / zone.corners.length,
+            y: zone.corners.reduce((sum, p) => sum + p.y, 0) / zone.corners.length,
+          };
+          if (!clipSegmentToFront(camera, center, center)) continue;
+          const tp = transformPoint(center);
+          if (!isDrawable(tp)) continue;
+          ctx.fillStyle = 'rgba(250, 204, 21, 0.8)';
+          ctx.font = 'bold 14px sans-serif';
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillText(zone.label, tp.x, tp.y);
         }
-        
-        // Halfway line
-        drawLine({ x: L/2, y: 0 }, { x: L/2, y: W });
-        
-        // Touchlines
-        drawLine({ x: 0, y: 0 }, { x: L, y: 0 });
-        drawLine({ x: 0, y: W }, { x: L, y: W });
-        
-        // Field outline (partial based on visible area)
-        drawLine({ x: 0, y: 0 }, { x: 0, y: W });
-        drawLine({ x: L, y: 0 }, { x: L, y: W });
-        break;
+      }
     }
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.lineWidth = 2;
+    drawLines(lines, [8, 6]);
+
+    ctx.strokeStyle = 'rgba(250, 204, 21, 0.7)';
+    ctx.lineWidth = 1.5;
+    drawLines(gridLayers.flatMap(layer => layer.lines), [6, 4]);
   };
 
   if (!isVisible) return null;
@@ -198,4 +183,4 @@ export const FieldOverlay = ({
       style={{ zIndex: 5 }}
     />
   );
-};
\ No newline at end of file
+};
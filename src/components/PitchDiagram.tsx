@@ -0,0 +1,97 @@
+import { getPitchLandmarks } from "@/lib/landmarks";
+import { getPitchLines, type PitchLine, type PitchModel } from "@/lib/pitch";
+import { cn } from "@/lib/utils";
+
+interface PitchDiagramProps {
+  pitch: PitchModel;
+  placedLandmarkIds: string[];
+  activeLandmarkId: string | null;
+  onLandmarkSelect: (id: string) => void;
+  className?: string;
+}
+
+const MARGIN = 3;
+
+const renderLine = (line: PitchLine, key: number) => {
+  switch (line.type) {
+    case "line":
+      return (
+        <line
+          key={key}
+          x1={line.from.x}
+          y1={line.from.y}
+          x2={line.to.x}
+          y2={line.to.y}
+          strokeDasharray={line.dashed ? "1 1" : undefined}
+        />
+      );
+    case "arc": {
+      const sweep = line.endAngle - line.startAngle;
+      if (Math.abs(sweep) >= 2 * Math.PI - 1e-6) {
+        return <circle key={key} cx={line.center.x} cy={line.center.y} r={line.radius} />;
+      }
+      const point = (angle: number) =>
+        `${line.center.x + line.radius * Math.cos(angle)} ${line.center.y + line.radius * Math.sin(angle)}`;
+      return (
+        <path
+          key={key}
+          d={`M ${point(line.startAngle)} A ${line.radius} ${line.radius} 0 ${Math.abs(sweep) > Math.PI ? 1 : 0} ${sweep > 0 ? 1 : 0} ${point(line.endAngle)}`}
+        />
+      );
+    }
+    case "spot":
+      return <circle key={key} cx={line.at.x} cy={line.at.y} r={0.3} fill="white" />;
+  }
+};
+
+// Top-down pitch used to pick which landmark the next video click belongs to
+export const PitchDiagram = ({
+  pitch,
+  placedLandmarkIds,
+  activeLandmarkId,
+  onLandmarkSelect,
+  className,
+}: PitchDiagramProps) => {
+  const landmarks = getPitchLandmarks(pitch);
+
+  // Fit the view to every landmark, which includes in-goal areas where a template has them
+  const xs = landmarks.map(l => l.x);
+  const ys = landmarks.map(l => l.y);
+  const minX = Math.min(0, ...xs) - MARGIN;
+  const minY = Math.min(0, ...ys) - MARGIN;
+  const maxX = Math.max(pitch.length, ...xs) + MARGIN;
+  const maxY = Math.max(pitch.width, ...ys) + MARGIN;
+  const scale = pitch.length / 105; // keeps markers readable on small pitches
+
+  return (
+    <svg
+      viewBox={`${minX} ${minY} ${maxX - minX} ${maxY - minY}`}
+      className={cn("w-full rounded bg-green-700", className)}
+    >
+      <g fill="none" stroke="white" strokeWidth={0.3 * scale} opacity={0.7}>
+        {getPitchLines(pitch).map(renderLine)}
+      </g>
+
+      {landmarks.map((landmark) => {
+        const isActive = landmark.id === activeLandmarkId;
+        const isPlaced = placedLandmarkIds.includes(landmark.id);
+        return (
+          <circle
+            key={landmark.id}
+            cx={landmark.x}
+            cy={landmark.y}
+            r={(isActive ? 1.8 : 1.2) * scale}
+            className={cn(
+              "cursor-pointer stroke-white transition-all",
+              isActive ? "fill-yellow-400" : isPlaced ? "fill-primary" : "fill-white/40 hover:fill-white"
+            )}
+            strokeWidth={0.3 * scale}
+            onClick={() => onLandmarkSelect(landmark.id)}
+          >
+            <title>{landmark.name}</title>
+          </circle>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,105 @@
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import { Clock } from "lucide-react";
+import type { SelectedAnnotation } from "@/components/DrawingCanvas";
+import type { AnnotationTiming } from "@/lib/annotation-timing";
+
+interface SelectedAnnotationPanelProps {
+  selection: SelectedAnnotation;
+  clipTime: number; // playhead, seconds into the clip
+  clipDuration: number;
+  onTimingChange: (change: Partial<AnnotationTiming>) => void;
+  onAddKeyframe: () => void;
+  onClearMotion: () => void;
+  className?: string;
+}
+
+// In and out points and motion keyframes of the selected drawing, set from the playhead
+export const SelectedAnnotationPanel = ({
+  selection: { timing, keyframes },
+  clipTime,
+  clipDuration,
+  onTimingChange,
+  onAddKeyframe,
+  onClearMotion,
+  className
+}: SelectedAnnotationPanelProps) => {
+  const now = Math.min(clipDuration, Math.max(0, clipTime));
+
+  return (
+    <Card className={`p-4 ${className ?? ""}`}>
+      <div className="flex items-center gap-2 mb-3">
+        <Clock className="h-4 w-4 text-primary" />
+        <h3 className="font-semibold">Selected Drawing</h3>
+      </div>
+      <div className="space-y-3 text-sm">
+        <div>
+          <span className="text-muted-foreground">Shown: </span>
+          <span className="font-medium font-mono">{timing.in.toFixed(1)}s – {timing.out.toFixed(1)}s</span>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onTimingChange({ in: now, out: Math.max(timing.out, now) })}
+            title="Show from the playhead"
+          >
+            In
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onTimingChange({ in: Math.min(timing.in, now), out: now })}
+            title="Hide after the playhead"
+          >
+            Out
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onTimingChange({ in: 0, out: clipDuration })}
+          >
+            Whole clip
+          </Button>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">Fade</span>
+          <Slider
+            value={[timing.fade]}
+            onValueChange={(value) => onTimingChange({ fade: value[0] })}
+            min={0}
+            max={1}
+            step={0.1}
+            className="flex-1"
+          />
+          <span className="font-mono w-10 text-right">{timing.fade.toFixed(1)}s</span>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Keyframes: </span>
+          <span className="font-medium font-mono">
+            {keyframes.length > 0 ? keyframes.map(time => `${time.toFixed(1)}s`).join(" · ") : "none"}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onAddKeyframe}
+            title="Keep the drawing where it is now at the playhead; later moves add keyframes too"
+          >
+            Keyframe
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClearMotion}
+            disabled={keyframes.length === 0}
+          >
+            Clear motion
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -1,9 +1,10 @@
 import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Plus, Play, Scissors } from "lucide-react";
+import { Plus, Play, Scissors, Crosshair, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
+import type { CalibrationKeyframe } from "@/lib/calibration";
 
 interface Clip {
   id: string;
@@ -21,6 +22,8 @@ interface TimelineProps {
   onClipCreate: (clip: Omit<Clip, "id">) => void;
   onClipSelect: (clip: Clip) => void;
   selectedClip?: Clip;
+  calibrationKeyframes?: CalibrationKeyframe[];
+  onCalibrationKeyframeRemove?: (id: string) => void;
   className?: string;
 }
 
@@ -33,6 +36,8 @@ export const Timeline = ({
   onClipCreate,
   onClipSelect,
   selectedClip,
+  calibrationKeyframes = [],
+  onCalibrationKeyframeRemove,
   className
 }: TimelineProps) => {
   const [isRecording, setIsRecording] = useState(false);
@@ -95,6 +100,11 @@ export const Timeline = ({
     };
   };
 
+  const getKeyframeStyle = (time: number) => {
+    if (duration === 0) return { left: "0%" };
+    return { left: `${(time / duration) * 100}%` };
+  };
+
   const getCurrentTimeStyle = () => {
     if (duration === 0) return { left: "0%" };
     return { left: `${(currentTime / duration) * 100}%` };
@@ -224,8 +234,48 @@ export const Timeline = ({
             <div className="absolute -top-1 -left-1 w-3 h-3 bg-primary rounded-full" />
           </div>
         </div>
+
+        {/* Calibration Track */}
+        {calibrationKeyframes.length > 0 && (
+          <div className="relative h-4 mt-1 bg-muted/50 rounded">
+            {calibrationKeyframes.map((keyframe) => (
+              <div
+                key={keyframe.id}
+                title={`Calibration at ${formatTime(keyframe.time)}`}
+                className="absolute top-1/2 w-2.5 h-2.5 -ml-[5px] -mt-[5px] rotate-45 bg-green-500 border border-white"
+                style={getKeyframeStyle(keyframe.time)}
+              />
+            ))}
+          </div>
+        )}
       </div>
 
+      {/* Calibration Keyframes List */}
+      {calibrationKeyframes.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium mb-2">Calibrations ({calibrationKeyframes.length})</h4>
+          <div className="space-y-1 max-h-24 overflow-y-auto">
+            {calibrationKeyframes.map((keyframe) => (
+              <div key={keyframe.id} className="flex items-center gap-2 p-2 rounded bg-muted">
+                <Crosshair className="h-3 w-3 text-green-500" />
+                <span className="flex-1 text-sm font-medium">{keyframe.mode}</span>
+                <span className="text-xs text-muted-foreground">{formatTime(keyframe.time)}</span>
+                {onCalibrationKeyframeRemove && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => onCalibrationKeyframeRemove(keyframe.id)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Clips List */}
       {clips.length > 0 && (
         <div className="mt-4">
@@ -1,17 +1,24 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useRef, useState, forwardRef, useImperativeHandle } from "react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { Play, Pause, Volume2, VolumeX, SkipBack, SkipForward } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { CapturedFrame } from "@/lib/line-detection-client";
+import type { VideoLayout } from "@/lib/view";
 
 interface VideoPlayerProps {
   src?: string;
   onTimeUpdate?: (currentTime: number, duration: number) => void;
   onLoadedData?: (duration: number) => void;
+  onLayoutChange?: (layout: VideoLayout) => void;
   className?: string;
 }
 
-export const VideoPlayer = ({ src, onTimeUpdate, onLoadedData, className }: VideoPlayerProps) => {
+export interface VideoPlayerRef {
+  captureFrame: (maxWidth?: number) => CapturedFrame | null;
+}
+
+export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, onTimeUpdate, onLoadedData, onLayoutChange, className }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
@@ -85,6 +92,24 @@ export const VideoPlayer = ({ src, onTimeUpdate, onLoadedData, className }: Vide
     setCurrentTime(newTime);
   };
 
+  useImperativeHandle(ref, () => ({
+    // Current frame downscaled to at most maxWidth pixels
+    captureFrame: (maxWidth = 640) => {
+      const video = videoRef.current;
+      if (!video || !video.videoWidth) return null;
+
+      const scale = Math.max(1, video.videoWidth / maxWidth);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(video.videoWidth / scale);
+      canvas.height = Math.round(video.videoHeight / scale);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return null;
+
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      return { image: ctx.getImageData(0, 0, canvas.width, canvas.height), scale };
+    },
+  }));
+
   const formatTime = (time: number) => {
     const minutes = Math.floor(time / 60);
     const seconds = Math.floor(time % 60);
@@ -108,6 +133,48 @@ export const VideoPlayer = ({ src, onTimeUpdate, onLoadedData, className }: Vide
     };
   }, []);
 
+  // timeupdate only fires a few times a second; while playing, every frame is
+  // reported too so moving drawings and camera keyframes glide
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  onTimeUpdateRef.current = onTimeUpdate;
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !isPlaying || !("requestVideoFrameCallback" in video)) return;
+
+    let handle = 0;
+    const onFrame = () => {
+      setCurrentTime(video.currentTime);
+      onTimeUpdateRef.current?.(video.currentTime, video.duration);
+      handle = video.requestVideoFrameCallback(onFrame);
+    };
+    handle = video.requestVideoFrameCallback(onFrame);
+    return () => video.cancelVideoFrameCallback(handle);
+  }, [isPlaying]);
+
+  // Native frame size and displayed size, reported on load and on every resize
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !onLayoutChange) return;
+
+    const report = () => {
+      if (!video.videoWidth || !video.clientWidth) return;
+      onLayoutChange({
+        video: { width: video.videoWidth, height: video.videoHeight },
+        display: { width: video.clientWidth, height: video.clientHeight },
+      });
+    };
+
+    const observer = new ResizeObserver(report);
+    observer.observe(video);
+    video.addEventListener('loadedmetadata', report);
+    report();
+
+    return () => {
+      observer.disconnect();
+      video.removeEventListener('loadedmetadata', report);
+    };
+  }, [onLayoutChange]);
+
   return (
     <div className={cn("relative bg-video-bg rounded-lg overflow-hidden shadow-video", className)}>
       <video
@@ -189,4 +256,4 @@ export const VideoPlayer = ({ src, onTimeUpdate, onLoadedData, className }: Vide
       </div>
     </div>
   );
-};
\ No newline at end of file
+});
@@ -0,0 +1,119 @@
+import { Point as FabricPoint, Polyline, type Canvas, type FabricObject } from "fabric";
+import type { CameraModel } from "./camera";
+import type { Point } from "./homography";
+import type { PitchModel } from "./pitch";
+import { findKeyframeSpan, upsertKeyframe, type Keyframed } from "./keyframes";
+import { getGroundOutline, translateGroundShape } from "./ground-shapes";
+import { isArrow, renderArrow } from "./arrows";
+import { isMeasurement, setMeasurementPoints } from "./measurement";
+import { isOffside, renderOffside } from "./offside";
+import { isChain, setChainPoints } from "./player-chain";
+import { isSpotlight, renderSpotlight } from "./spotlight";
+import { setFieldAnchor, setFieldPoints, setGroundShape, type AnchoredObject } from "./pitch-anchoring";
+
+// Where an annotation is, as named lists of points: field meters for anything
+// on the pitch, video pixels otherwise. Arrows keep both ends and their bend,
+// so either end can move on its own.
+export type Pose = Record<string, Point[]>;
+
+// Time in seconds into the clip, like the annotation's timing
+export interface MotionKeyframe extends Keyframed {
+  pose: Pose;
+}
+
+export type MovingObject = FabricObject & { motion?: MotionKeyframe[] };
+
+export const MOTION_PROPERTIES = ["motion"];
+
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+const centroid = (points: Point[]): Point => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+export const getPose = (object: FabricObject): Pose => {
+  if (isSpotlight(object)) return { at: [object.spotlight.at] };
+  if (isArrow(object)) {
+    const { from, to, control } = object.arrow;
+    return { ends: control ? [from, to, control] : [from, to] };
+  }
+  if (isMeasurement(object)) return { points: object.measurement.points };
+  if (isChain(object)) return { points: object.chain.points };
+  if (isOffside(object)) {
+    const { defender, attacker } = object.offside;
+    return { players: attacker ? [defender, attacker] : [defender] };
+  }
+  const { groundShape, fieldPoints, fieldAnchor } = object as AnchoredObject;
+  // Ground shapes only move, they don't change shape
+  if (groundShape) return { center: [centroid(getGroundOutline(groundShape))] };
+  if (fieldPoints && object instanceof Polyline) return { points: fieldPoints };
+  if (fieldAnchor) return { anchor: [fieldAnchor] };
+  const { x, y } = object.getCenterPoint();
+  return { center: [{ x, y }] };
+};
+
+// Anything on the pitch needs a calibration to be placed
+export const setPose = (object: FabricObject, pose: Pose, camera: CameraModel | null | undefined, pitch: PitchModel) => {
+  if (isArrow(object)) {
+    const [from, to, control] = pose.ends;
+    object.arrow = { ...object.arrow, from, to, control: object.arrow.control && control };
+    renderArrow(object, camera);
+    return;
+  }
+  const { groundShape, fieldPoints, fieldAnchor } = object as AnchoredObject;
+  const onPitch = isSpotlight(object) || isMeasurement(object) || isChain(object) || isOffside(object) ||
+    !!groundShape || !!fieldPoints || !!fieldAnchor;
+  if (onPitch && !camera) return;
+
+  if (isSpotlight(object)) {
+    object.spotlight = { ...object.spotlight, at: pose.at[0] };
+    renderSpotlight(object, camera!);
+  } else if (isMeasurement(object)) {
+    setMeasurementPoints(object, pose.points, camera!);
+  } else if (isChain(object)) {
+    setChainPoints(object, pose.points, camera!);
+  } else if (isOffside(object)) {
+    const [defender, attacker] = pose.players;
+    object.offside = { ...object.offside, defender, attacker: object.offside.attacker && attacker };
+    renderOffside(object, camera!, pitch);
+  } else if (groundShape && object instanceof Polyline) {
+    const from = centroid(getGroundOutline(groundShape));
+    const [to] = pose.center;
+    setGroundShape(object, translateGroundShape(groundShape, { x: to.x - from.x, y: to.y - from.y }), camera!);
+  } else if (fieldPoints && object instanceof Polyline) {
+    setFieldPoints(object, pose.points, camera!);
+  } else if (fieldAnchor) {
+    setFieldAnchor(object, pose.anchor[0], camera!);
+  } else {
+    const [center] = pose.center;
+    object.setPositionByOrigin(new FabricPoint(center.x, center.y), "center", "center");
+    object.setCoords();
+  }
+};
+
+// Point lists that changed length since (a measurement extended, say) hold the
+// earlier keyframe rather than morph
+const blendPoses = (a: Pose, b: Pose, t: number): Pose =>
+  Object.fromEntries(Object.entries(a).map(([key, points]) => {
+    const to = b[key];
+    return [key, to?.length === points.length ? points.map((p, i) => lerp(p, to[i], t)) : points];
+  }));
+
+// Records where the object is now as its keyframe at `time`
+export const addMotionKeyframe = (object: MovingObject, time: number) => {
+  object.motion = upsertKeyframe(object.motion ?? [], { time, pose: getPose(object) });
+};
+
+export const clearMotion = (object: MovingObject) => {
+  delete object.motion;
+};
+
+// Places every keyframed object for the playhead, in seconds into the clip
+export const applyMotion = (canvas: Canvas, time: number, camera: CameraModel | null | undefined, pitch: PitchModel) => {
+  for (const object of canvas.getObjects() as MovingObject[]) {
+    const span = object.motion && findKeyframeSpan(object.motion, time);
+    if (span) setPose(object, blendPoses(span.before.pose, span.after.pose, span.t), camera, pitch);
+  }
+  canvas.requestRenderAll();
+};
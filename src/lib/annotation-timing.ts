@@ -0,0 +1,52 @@
+import type { Canvas, FabricObject } from "fabric";
+
+// When an annotation is shown, in seconds from the start of its clip. It is
+// fully shown from `in` to `out` and fades just outside, so a drawing is at
+// full strength at the moment it was drawn.
+export interface AnnotationTiming {
+  in: number;
+  out: number;
+  fade: number; // seconds
+}
+
+// Opacity and interactivity of the object itself, which the fade is applied
+// on top of and which come back once its timing is removed
+export interface TimingBase {
+  opacity: number;
+  evented: boolean;
+}
+
+// Objects without a timing are shown throughout
+export type TimedObject = FabricObject & { timing?: AnnotationTiming; timingBase?: TimingBase };
+
+export const TIMING_PROPERTIES = ["timing", "timingBase"];
+
+export const DEFAULT_FADE = 0.3;
+
+export const getTimedOpacity = ({ in: start, out: end, fade }: AnnotationTiming, time: number) => {
+  if (time >= start && time <= end) return 1;
+  if (fade <= 0) return 0;
+  const distance = time < start ? start - time : time - end;
+  return Math.max(0, 1 - distance / fade);
+};
+
+// Shows, fades and hides timed objects for the playhead, given in seconds into
+// the clip; null shows everything. Hidden objects can't be picked up either.
+// The drawing still in progress, if any, is left alone.
+export const applyTiming = (canvas: Canvas, time: number | null, draft?: FabricObject) => {
+  for (const object of canvas.getObjects() as TimedObject[]) {
+    if (object === draft) continue;
+    if (!object.timing) {
+      if (object.timingBase) {
+        object.set(object.timingBase);
+        delete object.timingBase;
+      }
+      continue;
+    }
+
+    const base = object.timingBase ??= { opacity: object.opacity, evented: object.evented };
+    const fade = time !== null ? getTimedOpacity(object.timing, time) : 1;
+    object.set({ opacity: base.opacity * fade, evented: base.evented && fade > 0 });
+  }
+  canvas.requestRenderAll();
+};
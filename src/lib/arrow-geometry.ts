@@ -0,0 +1,108 @@
+import type { Point } from "./homography";
+
+export type ArrowStyle = "pass" | "run" | "dribble"; // solid, dashed, wavy
+export type ArrowHead = "end" | "both" | "none";
+
+// Lengths in whatever unit the arrow is built in: screen pixels for flat
+// arrows, meters for arrows lying on the pitch
+export interface ArrowSizes {
+  head: number;
+  dash: number;
+  wave: number; // amplitude, a wavelength is four of them
+}
+
+const HEAD_ANGLE = Math.PI / 7;
+
+const quadratic = (from: Point, control: Point, to: Point, t: number): Point => ({
+  x: (1 - t) ** 2 * from.x + 2 * (1 - t) * t * control.x + t ** 2 * to.x,
+  y: (1 - t) ** 2 * from.y + 2 * (1 - t) * t * control.y + t ** 2 * to.y,
+});
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+// Default bend for a new curved arrow: a quarter of its length to the left
+export const getDefaultControl = (from: Point, to: Point): Point => ({
+  x: (from.x + to.x) / 2 + (to.y - from.y) / 4,
+  y: (from.y + to.y) / 2 - (to.x - from.x) / 4,
+});
+
+const sampleBody = (from: Point, control: Point | undefined, to: Point, steps: number): Point[] =>
+  Array.from({ length: steps + 1 }, (_, i) => {
+    const t = i / steps;
+    return control ? quadratic(from, control, to, t) : { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+  });
+
+const dashed = (points: Point[], dash: number): Point[][] => {
+  const pieces: Point[][] = [];
+  const gap = dash * 0.6;
+  let run: Point[] = [points[0]];
+  let drawing = true;
+  let left = dash;
+  for (let i = 1; i < points.length; i++) {
+    let from = points[i - 1];
+    const to = points[i];
+    let length = distance(from, to);
+    while (length >= left) {
+      const t = left / length;
+      from = { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+      length -= left;
+      if (drawing) pieces.push([...run, from]);
+      run = [from];
+      drawing = !drawing;
+      left = drawing ? dash : gap;
+    }
+    left -= length;
+    if (drawing) run.push(to);
+  }
+  if (drawing && run.length > 1) pieces.push(run);
+  return pieces;
+};
+
+// Sine offset across the path, easing in and out over a wavelength so both
+// ends stay on the line
+const wavy = (points: Point[], amplitude: number): Point[] => {
+  const wavelength = amplitude * 4;
+  const lengths = points.map((_, i) => (i === 0 ? 0 : distance(points[i - 1], points[i])));
+  for (let i = 1; i < lengths.length; i++) lengths[i] += lengths[i - 1];
+  const total = lengths[lengths.length - 1];
+  return points.map((p, i) => {
+    const prev = points[Math.max(0, i - 1)];
+    const next = points[Math.min(points.length - 1, i + 1)];
+    const length = distance(prev, next) || 1;
+    const s = lengths[i];
+    const taper = Math.min(1, s / wavelength, (total - s) / wavelength);
+    const offset = amplitude * taper * Math.sin((2 * Math.PI * s) / wavelength);
+    return { x: p.x - ((next.y - prev.y) / length) * offset, y: p.y + ((next.x - prev.x) / length) * offset };
+  });
+};
+
+// Open chevron at `tip`, pointing away from `back`
+const chevron = (tip: Point, back: Point, size: number): Point[] => {
+  const angle = Math.atan2(tip.y - back.y, tip.x - back.x);
+  const side = (sign: number) => ({
+    x: tip.x - size * Math.cos(angle + sign * HEAD_ANGLE),
+    y: tip.y - size * Math.sin(angle + sign * HEAD_ANGLE),
+  });
+  return [side(1), tip, side(-1)];
+};
+
+// Polylines making up an arrow: the body, cut into dashes for runs, and its heads
+export const getArrowStrokes = (
+  from: Point,
+  control: Point | undefined,
+  to: Point,
+  style: ArrowStyle,
+  head: ArrowHead,
+  sizes: ArrowSizes
+): Point[][] => {
+  const approximate = control ? distance(from, control) + distance(control, to) : distance(from, to);
+  const steps = Math.max(32, Math.ceil((approximate / sizes.wave) * 3));
+  const body = sampleBody(from, control, to, steps);
+
+  const strokes =
+    style === "run" ? dashed(body, sizes.dash) : [style === "dribble" ? wavy(body, sizes.wave) : body];
+  // Heads follow the curve's direction at the ends
+  if (head !== "none") strokes.push(chevron(to, body[body.length - 2], sizes.head));
+  if (head === "both") strokes.push(chevron(from, body[1], sizes.head));
+  return strokes;
+};
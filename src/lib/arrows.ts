@@ -0,0 +1,177 @@
+import { Control, Path, Point as FabricPoint, util, type Canvas, type FabricObject } from "fabric";
+import { clipSegmentToFront, projectToField, projectToImage, type CameraModel } from "./camera";
+import { getArrowStrokes, getDefaultControl, type ArrowHead, type ArrowSizes, type ArrowStyle } from "./arrow-geometry";
+import { isFinitePoint } from "./field-group";
+import type { Point } from "./homography";
+
+export interface ArrowOptions {
+  style: ArrowStyle;
+  head: ArrowHead;
+  curved: boolean;
+  perspective: boolean; // built on the ground plane, needs a calibration
+}
+
+// Arrow geometry kept on the fabric path it is drawn as. Points are video
+// pixels, or field meters for arrows anchored to the pitch; arrows in
+// perspective are also built on the pitch, so heads and waves shrink with distance.
+export interface ArrowData {
+  from: Point;
+  to: Point;
+  control?: Point; // curved arrows only
+  style: ArrowStyle;
+  head: ArrowHead;
+  anchored: boolean;
+  perspective: boolean;
+}
+
+export type ArrowObject = Path & { arrow: ArrowData };
+
+export const ARROW_PROPERTIES = ["arrow"];
+
+const METER_SIZES: ArrowSizes = { head: 1.5, dash: 1.2, wave: 0.4 };
+
+const pixelSizes = (strokeWidth: number): ArrowSizes => ({
+  head: Math.max(12, strokeWidth * 4),
+  dash: Math.max(8, strokeWidth * 4),
+  wave: Math.max(4, strokeWidth * 1.5),
+});
+
+export const isArrow = (object: FabricObject): object is ArrowObject =>
+  object instanceof Path && !!(object as FabricObject & { arrow?: ArrowData }).arrow;
+
+const toPathData = (strokes: Point[][]) =>
+  strokes.map(stroke => stroke.map((p, i) => `${i === 0 ? "M" : "L"} ${p.x} ${p.y}`).join(" ")).join(" ");
+
+// Rebuilds the path from the arrow geometry, for the current calibration if anchored
+export const renderArrow = (object: ArrowObject, camera: CameraModel | null | undefined) => {
+  const { arrow } = object;
+  const points = [arrow.from, arrow.to, ...(arrow.control ? [arrow.control] : [])];
+  if (arrow.anchored) {
+    if (!camera) return;
+    // Hidden rather than mirrored once part of it is behind the camera
+    object.visible = points.every(p => clipSegmentToFront(camera, p, p));
+    if (!object.visible) return;
+  }
+
+  const toImage = (p: Point) => (arrow.anchored && camera ? projectToImage(camera, p) : p);
+  const strokes = arrow.perspective
+    ? getArrowStrokes(arrow.from, arrow.control, arrow.to, arrow.style, arrow.head, METER_SIZES)
+        .map(stroke => stroke.map(toImage))
+    : getArrowStrokes(
+        toImage(arrow.from),
+        arrow.control && toImage(arrow.control),
+        toImage(arrow.to),
+        arrow.style,
+        arrow.head,
+        pixelSizes(object.strokeWidth)
+      );
+
+  object.set({
+    path: util.makePathSimpler(util.parsePath(toPathData(strokes))),
+    scaleX: 1,
+    scaleY: 1,
+    angle: 0,
+    skewX: 0,
+    skewY: 0,
+    flipX: false,
+    flipY: false,
+  });
+  object.setBoundingBox(true);
+  object.setCoords();
+};
+
+// Degenerate arrow at a point in video pixels, stretched out with setArrowEnds
+export const createArrow = (
+  at: Point,
+  options: ArrowOptions,
+  camera: CameraModel | null | undefined,
+  anchorToPitch: boolean,
+  style: { stroke: string; strokeWidth: number }
+): ArrowObject => {
+  const perspective = options.perspective && !!camera;
+  const anchored = perspective || (anchorToPitch && !!camera);
+  const start = anchored && camera ? projectToField(camera, at) : at;
+  const object = new Path("M 0 0", {
+    ...style,
+    fill: "transparent",
+    strokeLineCap: "round",
+    strokeLineJoin: "round",
+    objectCaching: false,
+  }) as ArrowObject;
+  object.arrow = {
+    from: start,
+    to: start,
+    control: options.curved ? start : undefined,
+    style: options.style,
+    head: options.head,
+    anchored,
+    perspective,
+  };
+  renderArrow(object, camera);
+  return object;
+};
+
+// Ends given in video pixels; a curved arrow gets its default bend again
+export const setArrowEnds = (object: ArrowObject, from: Point, to: Point, camera: CameraModel | null | undefined) => {
+  const { arrow } = object;
+  const toStored = (p: Point) => (arrow.anchored && camera ? projectToField(camera, p) : p);
+  const [start, end] = [toStored(from), toStored(to)];
+  if (!isFinitePoint(start) || !isFinitePoint(end)) return;
+  object.arrow = { ...arrow, from: start, to: end, control: arrow.control && getDefaultControl(start, end) };
+  renderArrow(object, camera);
+};
+
+// After the arrow was dragged as a whole: the path moved but the geometry didn't
+export const moveArrow = (object: ArrowObject, camera: CameraModel | null | undefined) => {
+  const { arrow } = object;
+  const center = object.getCenterPoint();
+  const shift = { x: center.x - object.pathOffset.x, y: center.y - object.pathOffset.y };
+
+  let delta = shift;
+  if (arrow.anchored) {
+    if (!camera) return;
+    const from = projectToImage(camera, arrow.from);
+    const moved = projectToField(camera, { x: from.x + shift.x, y: from.y + shift.y });
+    if (!isFinitePoint(moved)) return;
+    delta = { x: moved.x - arrow.from.x, y: moved.y - arrow.from.y };
+  }
+  const move = (p: Point) => ({ x: p.x + delta.x, y: p.y + delta.y });
+  object.arrow = { ...arrow, from: move(arrow.from), to: move(arrow.to), control: arrow.control && move(arrow.control) };
+  renderArrow(object, camera);
+};
+
+// Handles on both ends and on the bend of a curved arrow
+export const attachArrowControls = (object: ArrowObject, getCamera: () => CameraModel | null | undefined) => {
+  const keys = ["from", "to", ...(object.arrow.control ? ["control"] : [])] as const;
+  object.controls = Object.fromEntries(keys.map(key => [
+    key,
+    new Control({
+      actionName: "modifyArrow",
+      cursorStyle: "pointer",
+      positionHandler: (_dim, _matrix, target: ArrowObject) => {
+        const camera = getCamera();
+        const point = target.arrow[key];
+        if (!point || (target.arrow.anchored && !camera)) return new FabricPoint(NaN, NaN);
+        const { x, y } = target.arrow.anchored && camera ? projectToImage(camera, point) : point;
+        return util.transformPoint(new FabricPoint(x, y), target.getViewportTransform());
+      },
+      actionHandler: (_event, { target }, x, y) => {
+        const camera = getCamera();
+        if (!isArrow(target) || (target.arrow.anchored && !camera)) return false;
+        const point = target.arrow.anchored && camera ? projectToField(camera, { x, y }) : { x, y };
+        if (!isFinitePoint(point)) return false;
+        target.arrow = { ...target.arrow, [key]: point };
+        renderArrow(target, camera);
+        return true;
+      },
+    }),
+  ]));
+  object.set({ hasBorders: false, lockRotation: true, lockScalingX: true, lockScalingY: true });
+};
+
+export const reprojectArrows = (canvas: Canvas, camera: CameraModel) => {
+  for (const object of canvas.getObjects()) {
+    if (isArrow(object) && object.arrow.anchored) renderArrow(object, camera);
+  }
+  canvas.requestRenderAll();
+};
@@ -0,0 +1,95 @@
+import type { CalibrationKeyframe } from "./calibration";
+import type { PitchModel } from "./pitch";
+import type { FrameSize } from "./view";
+
+const PRESETS_KEY = "playdrawtrack:calibration-presets";
+const VIDEO_KEY_PREFIX = "playdrawtrack:video-calibration:";
+const FINGERPRINT_CHUNK = 1024 * 1024;
+
+// Keyframe times only matter for per-video calibrations; a preset for a fixed
+// stadium camera holds a single keyframe that is applied at the current time
+export interface SavedCalibration {
+  id: string;
+  name: string;
+  savedAt: number;
+  pitch: PitchModel;
+  frame: FrameSize; // video size the points were placed in
+  keyframes: CalibrationKeyframe[];
+}
+
+const read = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const write = (key: string, value: unknown): boolean => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const loadCalibrationPresets = (): SavedCalibration[] => read<SavedCalibration[]>(PRESETS_KEY, []);
+
+// Saving under an existing name replaces that preset
+export const saveCalibrationPreset = (preset: Omit<SavedCalibration, "id" | "savedAt">): SavedCalibration[] | null => {
+  const saved: SavedCalibration = { ...preset, id: crypto.randomUUID(), savedAt: Date.now() };
+  const presets = [...loadCalibrationPresets().filter(p => p.name !== preset.name), saved]
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return write(PRESETS_KEY, presets) ? presets : null;
+};
+
+export const deleteCalibrationPreset = (id: string): SavedCalibration[] => {
+  const presets = loadCalibrationPresets().filter(p => p.id !== id);
+  write(PRESETS_KEY, presets);
+  return presets;
+};
+
+export const loadVideoCalibration = (fingerprint: string): SavedCalibration | null =>
+  read<SavedCalibration | null>(VIDEO_KEY_PREFIX + fingerprint, null);
+
+export const saveVideoCalibration = (fingerprint: string, calibration: Omit<SavedCalibration, "id" | "savedAt">): boolean =>
+  write(VIDEO_KEY_PREFIX + fingerprint, { ...calibration, id: fingerprint, savedAt: Date.now() });
+
+export const deleteVideoCalibration = (fingerprint: string) => {
+  try {
+    localStorage.removeItem(VIDEO_KEY_PREFIX + fingerprint);
+  } catch {
+    // Storage unavailable: nothing was saved either
+  }
+};
+
+// Size plus a hash of the first and last megabyte: stable across renames and
+// re-downloads of the same file, cheap for multi-gigabyte match recordings
+export const fingerprintFile = async (file: File): Promise<string> => {
+  if (!crypto.subtle) return `${file.name}:${file.size}:${file.lastModified}`;
+
+  const head = await file.slice(0, FINGERPRINT_CHUNK).arrayBuffer();
+  const tail = await file.slice(Math.max(0, file.size - FINGERPRINT_CHUNK)).arrayBuffer();
+  const bytes = new Uint8Array(head.byteLength + tail.byteLength);
+  bytes.set(new Uint8Array(head), 0);
+  bytes.set(new Uint8Array(tail), head.byteLength);
+
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+  const hex = Array.from(digest, b => b.toString(16).padStart(2, "0")).join("");
+  return `${file.size}-${hex}`;
+};
+
+// Points are stored in video pixels; a recording at another resolution scales them
+export const rescaleKeyframes = (keyframes: CalibrationKeyframe[], from: FrameSize, to: FrameSize): CalibrationKeyframe[] => {
+  if (from.width === to.width && from.height === to.height) return keyframes;
+  const sx = to.width / from.width;
+  const sy = to.height / from.height;
+  const scale = <P extends { x: number; y: number }>(p: P): P => ({ ...p, x: p.x * sx, y: p.y * sy });
+  return keyframes.map(keyframe => ({
+    ...keyframe,
+    points: keyframe.points.map(scale),
+    straightLines: keyframe.straightLines.map(line => line.map(scale)),
+  }));
+};
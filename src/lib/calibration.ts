@@ -0,0 +1,23 @@
+import type { Point } from "./homography";
+
+// Id of a calibration preset of the active pitch template, or LANDMARK_MODE
+export type CalibrationMode = string;
+
+export interface CalibrationPoint {
+  x: number;
+  y: number;
+  label: string;
+  landmarkId?: string; // set in LANDMARK_MODE, identifies the pitch landmark clicked
+}
+
+// A calibration of the frame at `time`; the homography is refit from the points
+// whenever the pitch changes and blended between keyframes during playback
+export interface CalibrationKeyframe {
+  id: string;
+  time: number;
+  mode: CalibrationMode;
+  points: CalibrationPoint[];
+  robust: boolean;
+  straightLines: Point[][];        // extra clicks along straight pitch lines
+  distortionCoefficients: 0 | 1 | 2; // radial lens coefficients to estimate
+}
@@ -0,0 +1,315 @@
+import { Homography, type CalibrationFit, type Point, type PointError, type RansacOptions } from "./homography";
+
+// Polynomial radial model around the frame centre: a point at normalized radius
+// r (distance over `scale`, half the frame diagonal) moves to r(1 + k1 r² + k2 r⁴).
+// Barrel distortion of wide-angle lenses has k1 < 0.
+export interface LensDistortion {
+  k1: number;
+  k2: number;
+  center: Point;
+  scale: number;
+}
+
+// Field meters <-> recorded frame pixels. The homography maps onto the ideal
+// (undistorted) image, the lens model bends that onto the frame.
+export interface CameraModel {
+  fieldToImage: number[];
+  imageToField: number[];
+  distortion?: LensDistortion | null;
+}
+
+export interface DistortionFitOptions extends RansacOptions {
+  robust?: boolean;
+  coefficients: 1 | 2;
+  frame: { width: number; height: number };
+}
+
+const K_RANGE = 0.5;
+const SCAN_STEPS = 20;
+
+export const distortPoint = (p: Point, d: LensDistortion): Point => {
+  const dx = (p.x - d.center.x) / d.scale;
+  const dy = (p.y - d.center.y) / d.scale;
+  const r2 = dx * dx + dy * dy;
+  const f = 1 + d.k1 * r2 + d.k2 * r2 * r2;
+  return { x: d.center.x + dx * f * d.scale, y: d.center.y + dy * f * d.scale };
+};
+
+// Inverts distortPoint with Newton steps on the radius
+export const undistortPoint = (p: Point, d: LensDistortion): Point => {
+  const dx = (p.x - d.center.x) / d.scale;
+  const dy = (p.y - d.center.y) / d.scale;
+  const rd = Math.hypot(dx, dy);
+  if (rd < 1e-12) return p;
+
+  let r = rd;
+  for (let i = 0; i < 10; i++) {
+    const r2 = r * r;
+    const slope = 1 + 3 * d.k1 * r2 + 5 * d.k2 * r2 * r2;
+    if (slope <= 1e-6) break;
+    const step = (r * (1 + d.k1 * r2 + d.k2 * r2 * r2) - rd) / slope;
+    r -= step;
+    if (Math.abs(step) < 1e-10) break;
+  }
+
+  const f = r / rd;
+  return { x: d.center.x + dx * f * d.scale, y: d.center.y + dy * f * d.scale };
+};
+
+export const projectToImage = (camera: CameraModel, fieldPoint: Point): Point => {
+  const ideal = Homography.transform(fieldPoint, camera.fieldToImage);
+  if (!camera.distortion || !isFinite(ideal.x) || !isFinite(ideal.y)) return ideal;
+  return distortPoint(ideal, camera.distortion);
+};
+
+export const projectToField = (camera: CameraModel, imagePoint: Point): Point =>
+  Homography.transform(
+    camera.distortion ? undistortPoint(imagePoint, camera.distortion) : imagePoint,
+    camera.imageToField
+  );
+
+// Homogeneous w of a field point; positive in front of the camera
+const depth = (camera: CameraModel, p: Point) => {
+  const h = camera.fieldToImage;
+  return h[6] * p.x + h[7] * p.y + h[8];
+};
+
+// Points closer to the camera plane than this fraction of the visible depth
+// are cut off; they would project towards infinity
+const NEAR_RATIO = 0.01;
+
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+// Part of a field segment in front of the camera, null when all of it is behind.
+// w is affine in field coordinates, so the cut is a single point on the segment.
+export const clipSegmentToFront = (camera: CameraModel, from: Point, to: Point): [Point, Point] | null => {
+  const wa = depth(camera, from);
+  const wb = depth(camera, to);
+  const near = Math.max(wa, wb) * NEAR_RATIO;
+  if (wa < near && wb < near) return null;
+  if (wa >= near && wb >= near) return [from, to];
+  const cut = lerp(from, to, (near - wa) / (wb - wa));
+  return wa >= near ? [from, cut] : [cut, to];
+};
+
+// Sutherland-Hodgman against the near plane, for filled field polygons
+export const clipPolygonToFront = (camera: CameraModel, polygon: Point[]): Point[] => {
+  const w = polygon.map(p => depth(camera, p));
+  const near = Math.max(...w) * NEAR_RATIO;
+  if (!(near > 0)) return [];
+
+  const clipped: Point[] = [];
+  polygon.forEach((p, i) => {
+    const j = (i + 1) % polygon.length;
+    if (w[i] >= near) clipped.push(p);
+    if ((w[i] >= near) !== (w[j] >= near)) clipped.push(lerp(p, polygon[j], (near - w[i]) / (w[j] - w[i])));
+  });
+  return clipped;
+};
+
+export const cameraFromFit = (fit: CalibrationFit): CameraModel => ({
+  fieldToImage: fit.homography,
+  imageToField: fit.inverse,
+  distortion: fit.distortion,
+});
+
+// Blends two keyframe cameras; the lens coefficients follow the zoom linearly.
+// At either end the keyframe's own camera is returned, not a copy.
+export const interpolateCamera = (a: CameraModel, b: CameraModel, t: number): CameraModel | null => {
+  if (a === b || t <= 0) return a;
+  if (t >= 1) return b;
+  const fieldToImage = Homography.interpolate(a.fieldToImage, b.fieldToImage, t);
+  const imageToField = fieldToImage && Homography.invert(fieldToImage);
+  if (!fieldToImage || !imageToField) return null;
+
+  const da = a.distortion;
+  const db = b.distortion;
+  const distortion = da || db
+    ? {
+        ...(da ?? db)!,
+        k1: (da?.k1 ?? 0) + ((db?.k1 ?? 0) - (da?.k1 ?? 0)) * t,
+        k2: (da?.k2 ?? 0) + ((db?.k2 ?? 0) - (da?.k2 ?? 0)) * t,
+      }
+    : null;
+  return { fieldToImage, imageToField, distortion };
+};
+
+// Squared distances of points from their best-fit line, relative to the spread
+// along it, so undistorting cannot score better by merely shrinking the image
+const straightnessError = (points: Point[]) => {
+  const n = points.length;
+  const cx = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const cy = points.reduce((sum, p) => sum + p.y, 0) / n;
+  let sxx = 0, sxy = 0, syy = 0;
+  for (const p of points) {
+    sxx += (p.x - cx) ** 2;
+    sxy += (p.x - cx) * (p.y - cy);
+    syy += (p.y - cy) ** 2;
+  }
+  const mean = (sxx + syy) / 2;
+  const spread = Math.hypot((sxx - syy) / 2, sxy);
+  return mean + spread > 0 ? (mean - spread) / (mean + spread) : 0;
+};
+
+// Coarse scan followed by golden-section refinement around the best sample
+const minimizeScalar = (cost: (k: number) => number, lo: number, hi: number) => {
+  const step = (hi - lo) / SCAN_STEPS;
+  let best = 0;
+  let bestCost = cost(0);
+  for (let i = 0; i <= SCAN_STEPS; i++) {
+    const k = lo + i * step;
+    const c = cost(k);
+    if (c < bestCost) {
+      best = k;
+      bestCost = c;
+    }
+  }
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let a = Math.max(lo, best - step);
+  let b = Math.min(hi, best + step);
+  for (let i = 0; i < 30; i++) {
+    const k1 = b - ratio * (b - a);
+    const k2 = a + ratio * (b - a);
+    if (cost(k1) < cost(k2)) b = k2;
+    else a = k1;
+  }
+  const refined = (a + b) / 2;
+  return cost(refined) <= bestCost ? refined : best;
+};
+
+// Nelder-Mead simplex search over (k1, k2); the two coefficients trade off
+// against each other along a narrow valley that axis-wise searches crawl through
+const minimizePair = (cost: (k: [number, number]) => number, start: [number, number], size: number) => {
+  let simplex = ([start, [start[0] + size, start[1]], [start[0], start[1] + size]] as [number, number][])
+    .map(k => ({ k, cost: cost(k) }));
+
+  for (let i = 0; i < 200; i++) {
+    simplex.sort((a, b) => a.cost - b.cost);
+    const [best, good, worst] = simplex;
+    if (Math.abs(worst.cost - best.cost) <= 1e-9 * (Math.abs(best.cost) + 1e-9)) break;
+
+    const centroid: [number, number] = [(best.k[0] + good.k[0]) / 2, (best.k[1] + good.k[1]) / 2];
+    const along = (t: number): [number, number] => [
+      centroid[0] + t * (worst.k[0] - centroid[0]),
+      centroid[1] + t * (worst.k[1] - centroid[1]),
+    ];
+    const probe = (t: number) => {
+      const k = along(t);
+      return { k, cost: cost(k) };
+    };
+
+    const reflected = probe(-1);
+    if (reflected.cost < best.cost) {
+      const expanded = probe(-2);
+      simplex = [best, good, expanded.cost < reflected.cost ? expanded : reflected];
+    } else if (reflected.cost < good.cost) {
+      simplex = [best, good, reflected];
+    } else {
+      const contracted = probe(reflected.cost < worst.cost ? -0.5 : 0.5);
+      if (contracted.cost < Math.min(worst.cost, reflected.cost)) {
+        simplex = [best, good, contracted];
+      } else {
+        // Shrink towards the best vertex
+        simplex = [best, ...[good, worst].map(v => {
+          const k: [number, number] = [(v.k[0] + best.k[0]) / 2, (v.k[1] + best.k[1]) / 2];
+          return { k, cost: cost(k) };
+        })];
+      }
+    }
+  }
+
+  simplex.sort((a, b) => a.cost - b.cost);
+  return simplex[0].k;
+};
+
+const evaluateCamera = (
+  fieldPoints: Point[],
+  imagePoints: Point[],
+  camera: CameraModel,
+  inliers?: boolean[]
+): CalibrationFit => {
+  const errors: PointError[] = fieldPoints.map((fieldPoint, i) => {
+    const projected = projectToImage(camera, fieldPoint);
+    const backProjected = projectToField(camera, imagePoints[i]);
+    return {
+      pixels: Math.hypot(projected.x - imagePoints[i].x, projected.y - imagePoints[i].y),
+      meters: Math.hypot(backProjected.x - fieldPoint.x, backProjected.y - fieldPoint.y),
+    };
+  });
+
+  const scored = inliers ? errors.filter((_, i) => inliers[i]) : errors;
+  const rms = (values: number[]) =>
+    Math.sqrt(values.reduce((sum, v) => sum + v * v, 0) / values.length);
+
+  return {
+    homography: camera.fieldToImage,
+    inverse: camera.imageToField,
+    distortion: camera.distortion,
+    errors,
+    rmsPixels: rms(scored.map(e => e.pixels)),
+    rmsMeters: rms(scored.map(e => e.meters)),
+    inliers,
+  };
+};
+
+// Estimates k1 (and k2) together with the homography. Clicked landmarks are
+// scored by reprojection error on the recorded frame, extra points along
+// straight pitch lines by how straight they become once undistorted.
+export const fitWithDistortion = (
+  fieldPoints: Point[],
+  imagePoints: Point[],
+  straightLines: Point[][],
+  { robust, coefficients, frame, ...ransac }: DistortionFitOptions
+): CalibrationFit | null => {
+  // Outliers are settled once on the pinhole fit so they don't flip while k moves
+  const initial = robust
+    ? Homography.fitRobust(fieldPoints, imagePoints, ransac)
+    : Homography.fit(fieldPoints, imagePoints);
+  if (!initial) return null;
+
+  const inliers = initial.inliers;
+  const field = fieldPoints.filter((_, i) => !inliers || inliers[i]);
+  const image = imagePoints.filter((_, i) => !inliers || inliers[i]);
+  const lines = straightLines.filter(line => line.length >= 3);
+
+  const solve = (d: LensDistortion) => Homography.compute(field, image.map(p => undistortPoint(p, d)));
+  const cost = (d: LensDistortion) => {
+    const H = solve(d);
+    if (!H) return Infinity;
+    let sum = 0;
+    field.forEach((p, i) => {
+      const q = distortPoint(Homography.transform(p, H), d);
+      sum += (q.x - image[i].x) ** 2 + (q.y - image[i].y) ** 2;
+    });
+    for (const line of lines) {
+      // Weighted by the line's own extent to keep it in pixel² like the rest
+      const length = Math.hypot(line[line.length - 1].x - line[0].x, line[line.length - 1].y - line[0].y);
+      sum += straightnessError(line.map(p => undistortPoint(p, d))) * length * length * line.length;
+    }
+    return isFinite(sum) ? sum : Infinity;
+  };
+
+  let distortion: LensDistortion = {
+    k1: 0,
+    k2: 0,
+    center: { x: frame.width / 2, y: frame.height / 2 },
+    scale: Math.hypot(frame.width, frame.height) / 2,
+  };
+  // k1 alone carries most of the bend; k2 is refined jointly from there
+  distortion = { ...distortion, k1: minimizeScalar(k => cost({ ...distortion, k1: k }), -K_RANGE, K_RANGE) };
+  if (coefficients === 2) {
+    const clamp = (k: number) => Math.max(-K_RANGE, Math.min(K_RANGE, k));
+    const [k1, k2] = minimizePair(
+      ([k1, k2]) => cost({ ...distortion, k1: clamp(k1), k2: clamp(k2) }),
+      [distortion.k1, 0],
+      0.05
+    );
+    distortion = { ...distortion, k1: clamp(k1), k2: clamp(k2) };
+  }
+
+  const fieldToImage = solve(distortion);
+  const imageToField = fieldToImage && Homography.invert(fieldToImage);
+  if (!fieldToImage || !imageToField) return null;
+  return evaluateCamera(fieldPoints, imagePoints, { fieldToImage, imageToField, distortion }, inliers);
+};
@@ -0,0 +1,35 @@
+import type { FabricObject, Group, Polyline } from "fabric";
+import { projectToField, projectToImage, type CameraModel } from "./camera";
+import type { Point } from "./homography";
+
+// Pitch tools drawn as a group of parts (spotlights, measurements, chains,
+// offside lines) keep their data in field meters and rebuild the parts from it
+
+export const isFinitePoint = (p: Point) => isFinite(p.x) && isFinite(p.y);
+
+// Swaps in freshly projected parts. Null parts (off the pitch, behind the
+// camera) hide the group. Parts are in video pixels, so any scale or rotation
+// left from a drag is dropped.
+export const setGroupParts = (object: Group, parts: FabricObject[] | null) => {
+  object.visible = !!parts;
+  if (!parts) return;
+  object.removeAll();
+  object.set({ scaleX: 1, scaleY: 1, angle: 0, skewX: 0, skewY: 0, flipX: false, flipY: false });
+  object.add(...parts);
+  object.setCoords();
+};
+
+// After a group was dragged as a whole: its line moved, the field points
+// didn't. A polyline's offset is the centre it was built around. Unchanged
+// when the drop isn't on the ground.
+export const dragFieldPoints = (line: Polyline, points: Point[], camera: CameraModel): Point[] => {
+  const center = line.getCenterPoint();
+  const from = projectToImage(camera, points[0]);
+  const moved = projectToField(camera, {
+    x: from.x + center.x - line.pathOffset.x,
+    y: from.y + center.y - line.pathOffset.y,
+  });
+  if (!isFinitePoint(moved)) return points;
+  const delta = { x: moved.x - points[0].x, y: moved.y - points[0].y };
+  return points.map(p => ({ x: p.x + delta.x, y: p.y + delta.y }));
+};
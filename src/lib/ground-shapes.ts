@@ -0,0 +1,91 @@
+import type { Point } from "./homography";
+
+// Shapes lying on the pitch, defined in field meters and only projected for
+// display, so a circle around a player shows as an ellipse on the grass. The
+// tag isn't called `type`: fabric would revive it as an object when loading.
+export type GroundShape =
+  | { kind: "circle"; center: Point; radius: number }
+  | { kind: "rect"; corners: [Point, Point] } // opposite corners, sides along the pitch axes
+  | { kind: "polygon"; vertices: Point[] };
+
+const CIRCLE_SEGMENTS = 64;
+
+const rectCorners = ([a, b]: [Point, Point]): Point[] => [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }];
+
+export const getGroundOutline = (shape: GroundShape): Point[] => {
+  switch (shape.kind) {
+    case "circle":
+      return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+        const angle = (i / CIRCLE_SEGMENTS) * 2 * Math.PI;
+        return { x: shape.center.x + shape.radius * Math.cos(angle), y: shape.center.y + shape.radius * Math.sin(angle) };
+      });
+    case "rect":
+      return rectCorners(shape.corners);
+    case "polygon":
+      return shape.vertices;
+  }
+};
+
+// Edit handles: the radius point of a circle, the corners of the others
+export const getGroundHandles = (shape: GroundShape): Point[] =>
+  shape.kind === "circle" ? [{ x: shape.center.x + shape.radius, y: shape.center.y }] : getGroundOutline(shape);
+
+export const moveGroundHandle = (shape: GroundShape, index: number, to: Point): GroundShape => {
+  switch (shape.kind) {
+    case "circle":
+      return { ...shape, radius: Math.hypot(to.x - shape.center.x, to.y - shape.center.y) };
+    case "rect": {
+      // The opposite corner stays put
+      const [a, b] = shape.corners;
+      const corners: [Point, Point][] = [
+        [to, b],
+        [{ x: a.x, y: to.y }, { x: to.x, y: b.y }],
+        [a, to],
+        [{ x: to.x, y: a.y }, { x: b.x, y: to.y }],
+      ];
+      return { ...shape, corners: corners[index] };
+    }
+    case "polygon":
+      return { ...shape, vertices: shape.vertices.map((v, i) => (i === index ? to : v)) };
+  }
+};
+
+export const translateGroundShape = (shape: GroundShape, delta: Point): GroundShape => {
+  const move = (p: Point) => ({ x: p.x + delta.x, y: p.y + delta.y });
+  switch (shape.kind) {
+    case "circle":
+      return { ...shape, center: move(shape.center) };
+    case "rect":
+      return { ...shape, corners: [move(shape.corners[0]), move(shape.corners[1])] };
+    case "polygon":
+      return { ...shape, vertices: shape.vertices.map(move) };
+  }
+};
+
+// Shape dragged out from one field point to another; Shift rounds the radius
+// to whole meters and makes rectangles square
+export const groundShapeFromDrag = (kind: "circle" | "rect", from: Point, to: Point, constrain: boolean): GroundShape => {
+  if (kind === "circle") {
+    const radius = Math.hypot(to.x - from.x, to.y - from.y);
+    return { kind, center: from, radius: constrain ? Math.max(1, Math.round(radius)) : radius };
+  }
+  if (!constrain) return { kind, corners: [from, to] };
+  const size = Math.max(Math.abs(to.x - from.x), Math.abs(to.y - from.y));
+  return {
+    kind,
+    corners: [from, { x: from.x + Math.sign(to.x - from.x || 1) * size, y: from.y + Math.sign(to.y - from.y || 1) * size }],
+  };
+};
+
+// Area (shoelace), width across the pitch and depth along it, all in meters
+export const measureZone = (vertices: Point[]) => {
+  const area = Math.abs(
+    vertices.reduce((sum, p, i) => {
+      const next = vertices[(i + 1) % vertices.length];
+      return sum + p.x * next.y - next.x * p.y;
+    }, 0) / 2
+  );
+  const xs = vertices.map(p => p.x);
+  const ys = vertices.map(p => p.y);
+  return { area, width: Math.max(...ys) - Math.min(...ys), depth: Math.max(...xs) - Math.min(...xs) };
+};
@@ -0,0 +1,41 @@
+import { classRegistry, Polygon } from "fabric";
+import { measureZone, type GroundShape } from "./ground-shapes";
+
+const LABEL_SIZE = 13; // screen pixels
+
+// Ground polygon marking a space, labelled with its real size. The label is
+// drawn with the shape so it follows every handle drag.
+export class GroundZone extends Polygon {
+  static type = "GroundZone";
+
+  declare groundShape?: GroundShape;
+
+  _render(ctx: CanvasRenderingContext2D) {
+    super._render(ctx);
+    const shape = this.groundShape;
+    if (shape?.kind !== "polygon" || shape.vertices.length < 3) return;
+
+    const { area, width, depth } = measureZone(shape.vertices);
+    const lines = [`${area.toFixed(0)} m²`, `${width.toFixed(1)} m wide · ${depth.toFixed(1)} m deep`];
+    // Points are scene coordinates around the path offset
+    const x = this.points.reduce((sum, p) => sum + p.x, 0) / this.points.length - this.pathOffset.x;
+    const y = this.points.reduce((sum, p) => sum + p.y, 0) / this.points.length - this.pathOffset.y;
+    const fontSize = LABEL_SIZE / (this.canvas?.viewportTransform[0] || 1);
+
+    ctx.save();
+    ctx.font = `bold ${fontSize}px Arial`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.lineWidth = fontSize / 4;
+    ctx.strokeStyle = "rgba(0, 0, 0, 0.7)";
+    ctx.fillStyle = "#FFFFFF";
+    lines.forEach((line, i) => {
+      const lineY = y + (i - (lines.length - 1) / 2) * fontSize * 1.3;
+      ctx.strokeText(line, x, lineY);
+      ctx.fillText(line, x, lineY);
+    });
+    ctx.restore();
+  }
+}
+
+classRegistry.setClass(GroundZone);
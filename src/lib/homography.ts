@@ -1,58 +1,294 @@
+import type { LensDistortion } from "./camera";
+import { smallestEigenvector } from "./linalg";
+
 export interface Point {
   x: number;
   y: number;
 }
 
+export interface PointError {
+  pixels: number; // image-space distance between the clicked and reprojected point
+  meters: number; // field-space distance between the reference and back-projected point
+}
+
+export interface CalibrationFit {
+  homography: number[]; // field (m) -> image (px)
+  inverse: number[];    // image (px) -> field (m)
+  errors: PointError[];
+  rmsPixels: number;
+  rmsMeters: number;
+  inliers?: boolean[]; // set by robust fits; false marks a rejected outlier
+  distortion?: LensDistortion; // set when lens distortion was estimated too
+}
+
+export interface RansacOptions {
+  threshold: number;      // max reprojection error (px) for a point to count as inlier
+  maxIterations?: number; // subsets tried; all of them are enumerated when fewer exist
+}
+
+const SAMPLE_SEED = 0x9e3779b9;
+
+// Reprojection error, as a share of the frame diagonal, above which a point
+// is an outlier (and a fit poor): about 5 px on a 1080p frame
+const POOR_FIT_FRACTION = 0.0025;
+
+export const getPoorFitPixels = ({ width, height }: { width: number; height: number }) =>
+  Math.hypot(width, height) * POOR_FIT_FRACTION;
+
+// mulberry32: small, fast and good enough to spread samples; uniform in [0, 1)
+const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
 export class Homography {
+  // Normalized DLT: both point sets are centred and scaled to a mean distance of
+  // sqrt(2) (Hartley) and the 9-vector h is taken as the least-squares null vector
+  // of A, so every correspondence beyond the minimum four contributes to the fit.
   static compute(srcPoints: Point[], dstPoints: Point[]): number[] | null {
-    const n = srcPoints.length;
+    const n = Math.min(srcPoints.length, dstPoints.length);
     if (n < 4) return null;
+    // Without four points in general position H is underdetermined
+    if (!this.hasGeneralPosition(srcPoints.slice(0, n)) || !this.hasGeneralPosition(dstPoints.slice(0, n))) {
+      return null;
+    }
 
-    const A: number[][] = [];
+    const Ts = this.normalization(srcPoints.slice(0, n));
+    const Td = this.normalization(dstPoints.slice(0, n));
+    if (!Ts || !Td) return null;
+
+    // Accumulate the normal matrix A^T A directly instead of storing A
+    const AtA: number[][] = Array.from({ length: 9 }, () => Array(9).fill(0));
     for (let i = 0; i < n; i++) {
-      const { x: x1, y: y1 } = srcPoints[i];
-      const { x: x2, y: y2 } = dstPoints[i];
-      A.push([-x1, -y1, -1, 0, 0, 0, x1 * x2, y1 * x2, x2]);
-      A.push([0, 0, 0, -x1, -y1, -1, x1 * y2, y1 * y2, y2]);
+      const { x: x1, y: y1 } = this.transform(srcPoints[i], Ts);
+      const { x: x2, y: y2 } = this.transform(dstPoints[i], Td);
+      const rows = [
+        [-x1, -y1, -1, 0, 0, 0, x1 * x2, y1 * x2, x2],
+        [0, 0, 0, -x1, -y1, -1, x1 * y2, y1 * y2, y2],
+      ];
+      for (const row of rows) {
+        for (let j = 0; j < 9; j++) {
+          for (let k = 0; k < 9; k++) AtA[j][k] += row[j] * row[k];
+        }
+      }
     }
 
-    const h = this.solve(A);
-    if (!h) return null;
-    return [...h, 1]; // Append h_88 = 1
+    const hn = smallestEigenvector(AtA);
+    const TdInv = this.invert(Td);
+    if (!TdInv) return null;
+
+    // Undo the normalization: H = Td^-1 * Hn * Ts
+    const H = this.multiply(this.multiply(TdInv, hn), Ts);
+    if (Math.abs(H[8]) < 1e-12) return null;
+    // The overall sign is free; pick the one that puts the (visible) source points
+    // at positive w, so w <= 0 marks field points behind the camera
+    const front = srcPoints.slice(0, n).reduce((sum, p) => sum + Math.sign(H[6] * p.x + H[7] * p.y + H[8]), 0);
+    const h = H.map(v => v / (front < 0 ? -Math.abs(H[8]) : Math.abs(H[8])));
+    return this.invert(h) ? h : null;
   }
 
-  private static solve(A: number[][]): number[] | null {
-    const n = A.length;
-    const m = A[0].length;
-    const b = A.map(row => -row[m - 1]);
-    const M = A.map(row => row.slice(0, m - 1));
-
-    // Simple Gaussian elimination
-    for (let i = 0; i < m - 1; i++) {
-      let max = i;
-      for (let j = i + 1; j < n; j++) {
-        if (Math.abs(M[j][i]) > Math.abs(M[max][i])) max = j;
+  // Fits field -> image and reports how far each correspondence lands from its
+  // counterpart, in image pixels (forward) and field meters (backward).
+  static fit(fieldPoints: Point[], imagePoints: Point[]): CalibrationFit | null {
+    const homography = this.compute(fieldPoints, imagePoints);
+    return homography ? this.evaluate(fieldPoints, imagePoints, homography) : null;
+  }
+
+  // RANSAC over minimal four-point subsets. The consensus set with the most
+  // inliers (ties broken by truncated residual) is refitted with the full DLT;
+  // points outside it are flagged in `inliers` but still get an error entry.
+  static fitRobust(
+    fieldPoints: Point[],
+    imagePoints: Point[],
+    { threshold, maxIterations = 500 }: RansacOptions
+  ): CalibrationFit | null {
+    const n = Math.min(fieldPoints.length, imagePoints.length);
+    if (n < 4) return null;
+
+    let best: boolean[] | null = null;
+    let bestCount = 0;
+    let bestCost = Infinity;
+
+    for (const sample of this.sampleSubsets(n, 4, maxIterations)) {
+      const src = sample.map(i => fieldPoints[i]);
+      const dst = sample.map(i => imagePoints[i]);
+      if (this.isDegenerate(src) || this.isDegenerate(dst)) continue;
+
+      const H = this.compute(src, dst);
+      if (!H) continue;
+
+      const inliers: boolean[] = [];
+      let count = 0;
+      let cost = 0;
+      for (let i = 0; i < n; i++) {
+        const p = this.transform(fieldPoints[i], H);
+        const r = Math.hypot(p.x - imagePoints[i].x, p.y - imagePoints[i].y);
+        const inlier = r < threshold;
+        inliers.push(inlier);
+        if (inlier) count++;
+        cost += Math.min(isFinite(r) ? r : threshold, threshold);
+      }
+
+      if (count > bestCount || (count === bestCount && cost < bestCost)) {
+        best = inliers;
+        bestCount = count;
+        bestCost = cost;
       }
-      [M[i], M[max]] = [M[max], M[i]];
-      [b[i], b[max]] = [b[max], b[i]];
+    }
+
+    if (!best || bestCount < 4) return null;
+
+    const pick = (points: Point[], mask: boolean[]) => points.slice(0, n).filter((_, i) => mask[i]);
+    const homography = this.compute(pick(fieldPoints, best), pick(imagePoints, best));
+    if (!homography) return null;
+
+    // Re-score against the refined model; keep the sample's consensus if the
+    // refit would leave too few points.
+    const refit = this.evaluate(fieldPoints, imagePoints, homography);
+    const refined = refit.errors.map(e => e.pixels < threshold);
+    const inliers = refined.filter(Boolean).length >= 4 ? refined : best;
+    return this.evaluate(fieldPoints, imagePoints, homography, inliers);
+  }
+
+  // True when some four-point subset has no three collinear points, i.e. the
+  // set is able to pin down a homography
+  static hasGeneralPosition(points: Point[]): boolean {
+    if (points.length < 4) return false;
+    return this.sampleSubsets(points.length, 4, 500)
+      .some(sample => !this.isDegenerate(sample.map(i => points[i])));
+  }
 
-      if (Math.abs(M[i][i]) < 1e-10) continue;
+  private static evaluate(
+    fieldPoints: Point[],
+    imagePoints: Point[],
+    homography: number[],
+    inliers?: boolean[]
+  ): CalibrationFit | null {
+    const inverse = this.invert(homography);
+    if (!inverse) return null;
 
-      for (let j = i + 1; j < n; j++) {
-        const f = M[j][i] / M[i][i];
-        for (let k = i; k < m - 1; k++) M[j][k] -= M[i][k] * f;
-        b[j] -= b[i] * f;
+    const n = Math.min(fieldPoints.length, imagePoints.length);
+    const errors: PointError[] = [];
+    for (let i = 0; i < n; i++) {
+      const projected = this.transform(fieldPoints[i], homography);
+      const backProjected = this.transform(imagePoints[i], inverse);
+      errors.push({
+        pixels: Math.hypot(projected.x - imagePoints[i].x, projected.y - imagePoints[i].y),
+        meters: Math.hypot(backProjected.x - fieldPoints[i].x, backProjected.y - fieldPoints[i].y),
+      });
+    }
+
+    // Quality is reported over the points the model actually trusts
+    const scored = inliers ? errors.filter((_, i) => inliers[i]) : errors;
+    const rms = (values: number[]) =>
+      Math.sqrt(values.reduce((sum, v) => sum + v * v, 0) / values.length);
+
+    return {
+      homography,
+      inverse,
+      errors,
+      rmsPixels: rms(scored.map(e => e.pixels)),
+      rmsMeters: rms(scored.map(e => e.meters)),
+      inliers,
+    };
+  }
+
+  // All k-subsets of 0..n-1 when there are at most `limit` of them, otherwise
+  // `limit` random (possibly repeated) subsets. The generator is seeded, so the
+  // same points always draw the same subsets and a stored calibration refits
+  // to the same homography.
+  private static sampleSubsets(n: number, k: number, limit: number): number[][] {
+    let total = 1;
+    for (let i = 0; i < k; i++) total = (total * (n - i)) / (i + 1);
+
+    if (total <= limit) {
+      const subsets: number[][] = [];
+      const walk = (start: number, current: number[]) => {
+        if (current.length === k) {
+          subsets.push([...current]);
+          return;
+        }
+        for (let i = start; i < n; i++) walk(i + 1, [...current, i]);
+      };
+      walk(0, []);
+      return subsets;
+    }
+
+    const random = seededRandom(SAMPLE_SEED);
+    return Array.from({ length: limit }, () => {
+      const pool = Array.from({ length: n }, (_, i) => i);
+      for (let i = 0; i < k; i++) {
+        const j = i + Math.floor(random() * (n - i));
+        [pool[i], pool[j]] = [pool[j], pool[i]];
+      }
+      return pool.slice(0, k);
+    });
+  }
+
+  // True when any three of the points are (nearly) collinear
+  private static isDegenerate(points: Point[]): boolean {
+    for (let i = 0; i < points.length; i++) {
+      for (let j = i + 1; j < points.length; j++) {
+        for (let k = j + 1; k < points.length; k++) {
+          const a = points[i], b = points[j], c = points[k];
+          const cross = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+          const scale = Math.max(
+            Math.hypot(b.x - a.x, b.y - a.y),
+            Math.hypot(c.x - a.x, c.y - a.y),
+            Math.hypot(c.x - b.x, c.y - b.y)
+          );
+          if (Math.abs(cross) < 1e-3 * scale * scale) return true;
+        }
       }
     }
+    return false;
+  }
+
+  private static normalization(points: Point[]): number[] | null {
+    const n = points.length;
+    const cx = points.reduce((sum, p) => sum + p.x, 0) / n;
+    const cy = points.reduce((sum, p) => sum + p.y, 0) / n;
+    const meanDist = points.reduce((sum, p) => sum + Math.hypot(p.x - cx, p.y - cy), 0) / n;
+    if (meanDist < 1e-12) return null;
 
-    const x = Array(m - 1).fill(0);
-    for (let i = m - 2; i >= 0; i--) {
-      let sum = 0;
-      for (let j = i + 1; j < m - 1; j++) sum += M[i][j] * x[j];
-      if (Math.abs(M[i][i]) < 1e-10) return null;
-      x[i] = (b[i] - sum) / M[i][i];
+    const s = Math.SQRT2 / meanDist;
+    return [s, 0, -s * cx, 0, s, -s * cy, 0, 0, 1];
+  }
+
+  // Blends two homographies entry-wise after scaling both to unit norm with a
+  // common sign. Good for the small pan/zoom steps between nearby keyframes.
+  static interpolate(a: number[], b: number[], t: number): number[] | null {
+    if (t <= 0) return a;
+    if (t >= 1) return b;
+
+    const normalize = (h: number[]) => {
+      const norm = Math.hypot(...h);
+      return h.map(v => v / norm);
+    };
+    const na = normalize(a);
+    let nb = normalize(b);
+    if (na.reduce((sum, v, i) => sum + v * nb[i], 0) < 0) nb = nb.map(v => -v);
+
+    const h = na.map((v, i) => v + (nb[i] - v) * t);
+    if (Math.abs(h[8]) < 1e-12) return null;
+    // Keeps the sign of the inputs: w stays positive in front of the camera
+    return h.map(v => v / Math.abs(h[8]));
+  }
+
+  static multiply(a: number[], b: number[]): number[] {
+    const out = Array(9).fill(0);
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        for (let k = 0; k < 3; k++) out[i * 3 + j] += a[i * 3 + k] * b[k * 3 + j];
+      }
     }
-    return x;
+    return out;
   }
 
   static invert(H: number[]): number[] | null {
@@ -90,48 +326,3 @@ export class Homography {
     };
   }
 }
-
-// Football field reference points based on calibration mode
-export const getFieldReferencePoints = (mode: string) => {
-  const L = 105; // Length in meters
-  const W = 68;  // Width in meters
-  const R = 9.15; // Center circle radius
-
-  switch (mode) {
-    case "away-goal":
-      return [
-        { x: 0, y: W/2 - 9.16 },     // Small goal area top-left
-        { x: 5.5, y: W/2 - 9.16 },   // Small goal area top-right
-        { x: 0, y: W/2 + 9.16 },     // Small goal area bottom-left
-        { x: 5.5, y: W/2 + 9.16 },   // Small goal area bottom-right
-        { x: 0, y: W/2 - 20.16 },    // Large goal area top-left
-        { x: 16.5, y: W/2 - 20.16 }, // Large goal area top-right
-        { x: 0, y: W/2 + 20.16 },    // Large goal area bottom-left
-        { x: 16.5, y: W/2 + 20.16 }  // Large goal area bottom-right
-      ];
-    
-    case "home-goal":
-      return [
-        { x: L, y: W/2 - 9.16 },       // Small goal area top-right
-        { x: L - 5.5, y: W/2 - 9.16 }, // Small goal area top-left
-        { x: L, y: W/2 + 9.16 },       // Small goal area bottom-right
-        { x: L - 5.5, y: W/2 + 9.16 }, // Small goal area bottom-left
-        { x: L, y: W/2 - 20.16 },      // Large goal area top-right
-        { x: L - 16.5, y: W/2 - 20.16 }, // Large goal area top-left
-        { x: L, y: W/2 + 20.16 },      // Large goal area bottom-right
-        { x: L - 16.5, y: W/2 + 20.16 }  // Large goal area bottom-left
-      ];
-    
-    case "center-circle":
-    default:
-      return [
-        { x: L/2, y: W/2 },           // Center spot
-        { x: L/2, y: W/2 - R },       // Center circle top
-        { x: L/2 + R, y: W/2 },       // Center circle right
-        { x: L/2, y: W/2 + R },       // Center circle bottom
-        { x: L/2 - R, y: W/2 },       // Center circle left
-        { x: L/2, y: 0 },             // Top touchline midpoint
-        { x: L/2, y: W }              // Bottom touchline midpoint
-      ];
-  }
-};
\ No newline at end of file
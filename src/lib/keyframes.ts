@@ -0,0 +1,30 @@
+export interface Keyframed {
+  time: number; // seconds into the video
+}
+
+export interface KeyframeSpan<T extends Keyframed> {
+  before: T;
+  after: T;
+  t: number; // 0 at `before`, 1 at `after`
+}
+
+// Neighbouring keyframes around `time` (keyframes sorted by time) and the blend
+// factor between them. Outside the covered range the nearest keyframe holds.
+export const findKeyframeSpan = <T extends Keyframed>(keyframes: T[], time: number): KeyframeSpan<T> | null => {
+  if (keyframes.length === 0) return null;
+
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  if (time <= first.time) return { before: first, after: first, t: 0 };
+  if (time >= last.time) return { before: last, after: last, t: 0 };
+
+  const next = keyframes.findIndex(k => k.time > time);
+  const before = keyframes[next - 1];
+  const after = keyframes[next];
+  return { before, after, t: (time - before.time) / (after.time - before.time) };
+};
+
+// Inserts or replaces (within `tolerance` seconds) a keyframe, keeping the list sorted
+export const upsertKeyframe = <T extends Keyframed>(keyframes: T[], keyframe: T, tolerance = 0.05): T[] =>
+  [...keyframes.filter(k => Math.abs(k.time - keyframe.time) > tolerance), keyframe]
+    .sort((a, b) => a.time - b.time);
@@ -0,0 +1,39 @@
+import type { Point } from "./homography";
+import { DEFAULT_PITCH, getCalibrationPreset, getPitchMarkings, type PitchModel } from "./pitch";
+import { getPitchTemplate } from "./pitch-templates";
+
+// Calibration mode in which the user picks any landmarks instead of a preset
+export const LANDMARK_MODE = "landmarks";
+export const MIN_LANDMARKS = 4;
+
+export interface PitchLandmark extends Point {
+  id: string;
+  name: string;
+}
+
+// Every identifiable line junction / spot of the pitch's template, in field meters.
+// x runs along the pitch from the away goal line (0) to the home goal line (L),
+// y across it from the top touchline (0) to the bottom touchline (W).
+export const getPitchLandmarks = (pitch: PitchModel = DEFAULT_PITCH): PitchLandmark[] =>
+  getPitchTemplate(pitch.template).getLandmarks(pitch, getPitchMarkings(pitch));
+
+export const getPitchLandmark = (id: string, pitch: PitchModel = DEFAULT_PITCH): PitchLandmark | undefined =>
+  getPitchLandmarks(pitch).find(landmark => landmark.id === id);
+
+// Field reference points of a calibration preset, in click order
+export const getFieldReferencePoints = (mode: string, pitch: PitchModel = DEFAULT_PITCH): PitchLandmark[] => {
+  const preset = getCalibrationPreset(pitch, mode);
+  if (!preset) return [];
+  const landmarks = getPitchLandmarks(pitch);
+  return preset.landmarkIds.map(id => landmarks.find(landmark => landmark.id === id)!);
+};
+
+export const getRequiredPoints = (mode: string, pitch: PitchModel = DEFAULT_PITCH): number =>
+  mode === LANDMARK_MODE ? MIN_LANDMARKS : getCalibrationPreset(pitch, mode)?.landmarkIds.length ?? 0;
+
+export const getCalibrationInstruction = (mode: string, pointIndex: number, pitch: PitchModel = DEFAULT_PITCH): string => {
+  const preset = getCalibrationPreset(pitch, mode);
+  const landmarkId = preset?.landmarkIds[pointIndex];
+  if (!preset || !landmarkId) return "Calibration complete";
+  return preset.instructions?.[pointIndex] ?? `Click the ${getPitchLandmark(landmarkId, pitch)?.name}`;
+};
@@ -0,0 +1,40 @@
+import { scaleLineDetection, type LineDetection } from "./line-detection";
+
+export interface CapturedFrame {
+  image: ImageData;
+  scale: number; // video pixels per image pixel
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+
+const getWorker = () => {
+  worker ??= new Worker(new URL("./line-detection.worker.ts", import.meta.url), { type: "module" });
+  return worker;
+};
+
+// Detects pitch lines in a captured frame, in native video pixels
+export const detectPitchLines = (frame: CapturedFrame): Promise<LineDetection> =>
+  new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    const detector = getWorker();
+
+    const cleanup = () => {
+      detector.removeEventListener("message", handleMessage);
+      detector.removeEventListener("error", handleError);
+    };
+    const handleMessage = (event: MessageEvent<{ id: number; detection?: LineDetection; error?: string }>) => {
+      if (event.data.id !== id) return;
+      cleanup();
+      if (event.data.detection) resolve(scaleLineDetection(event.data.detection, frame.scale));
+      else reject(new Error(event.data.error ?? "Line detection failed"));
+    };
+    const handleError = (event: ErrorEvent) => {
+      cleanup();
+      reject(new Error(event.message || "Line detection worker failed"));
+    };
+
+    detector.addEventListener("message", handleMessage);
+    detector.addEventListener("error", handleError);
+    detector.postMessage({ id, image: frame.image }, [frame.image.data.buffer]);
+  });
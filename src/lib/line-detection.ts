@@ -0,0 +1,463 @@
+import { clipSegmentToFront, projectToImage, type CameraModel } from "./camera";
+import type { Point } from "./homography";
+import { smallestEigenvector } from "./linalg";
+import type { PitchLandmark } from "./landmarks";
+
+export interface LineSegment {
+  from: Point;
+  to: Point;
+}
+
+export interface DetectedEllipse {
+  center: Point;
+  radiusX: number;
+  radiusY: number;
+  rotation: number; // radians, direction of the X radius
+}
+
+// Everything in the pixel space of the analysed image
+export interface LineDetection {
+  segments: LineSegment[];
+  ellipses: DetectedEllipse[];
+  candidates: Point[]; // line junctions, line/circle crossings and spots
+}
+
+// Segmentation: a line pixel is bright, unsaturated and brighter than grass on
+// both sides at one of the ridge distances (horizontally or vertically)
+const WHITE_MIN_LUMA = 140;
+const WHITE_MAX_CHROMA = 0.35;
+const RIDGE_DISTANCES = [3, 6];
+const RIDGE_CONTRAST = 25;
+
+// Hough transform
+const THETA_STEPS = 180;
+const MIN_VOTES = 30;
+const MAX_LINES = 40;
+const LINE_TOLERANCE = 3;
+const MAX_GAP = 8;
+const MIN_SEGMENT_LENGTH = 25;
+const MIN_FILL = 0.4;
+const MAX_BEND = (4 * Math.PI) / 180; // between the two halves of a segment; arcs bend more
+
+// Leftover pixels: circle arcs and painted spots
+const CONNECT_RADIUS = 3;
+const MIN_ELLIPSE_POINTS = 50;
+const MAX_ELLIPSE_ERROR = 0.06;
+const MAX_SPOT_SIZE = 10;
+
+const JUNCTION_TOLERANCE = 10;
+const MIN_JUNCTION_ANGLE = (15 * Math.PI) / 180;
+const MERGE_DISTANCE = 5;
+
+export const SNAP_RADIUS = 12;
+export const MATCH_RADIUS = 25;
+
+export const segmentLinePixels = (image: ImageData): Uint8Array => {
+  const { data, width, height } = image;
+  const luma = new Float32Array(width * height);
+  const grass = new Uint8Array(width * height);
+  const white = new Uint8Array(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    luma[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    grass[i] = g > r && g > b && g > 40 ? 1 : 0;
+    white[i] = luma[i] >= WHITE_MIN_LUMA && max - min <= WHITE_MAX_CHROMA * max ? 1 : 0;
+  }
+
+  const mask = new Uint8Array(width * height);
+  const isRidge = (i: number, a: number, b: number) =>
+    grass[a] && grass[b] && luma[i] - Math.max(luma[a], luma[b]) >= RIDGE_CONTRAST;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!white[i]) continue;
+      for (const d of RIDGE_DISTANCES) {
+        if (
+          (x - d >= 0 && x + d < width && isRidge(i, i - d, i + d)) ||
+          (y - d >= 0 && y + d < height && isRidge(i, i - d * width, i + d * width))
+        ) {
+          mask[i] = 1;
+          break;
+        }
+      }
+    }
+  }
+
+  return mask;
+};
+
+// Least-squares line through points (principal axis), as a point and unit direction
+const fitLine = (xs: number[], ys: number[], indices: number[]) => {
+  const n = indices.length;
+  const cx = indices.reduce((sum, i) => sum + xs[i], 0) / n;
+  const cy = indices.reduce((sum, i) => sum + ys[i], 0) / n;
+  let sxx = 0, sxy = 0, syy = 0;
+  for (const i of indices) {
+    sxx += (xs[i] - cx) ** 2;
+    sxy += (xs[i] - cx) * (ys[i] - cy);
+    syy += (ys[i] - cy) ** 2;
+  }
+  const angle = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+  return { origin: { x: cx, y: cy }, dir: { x: Math.cos(angle), y: Math.sin(angle) } };
+};
+
+// Progressive Hough: take the strongest peak, cut the pixels near it into
+// segments, withdraw their votes and repeat
+const findSegments = (xs: number[], ys: number[], width: number, height: number) => {
+  const n = xs.length;
+  const diag = Math.ceil(Math.hypot(width, height));
+  const rhoBins = 2 * diag + 1;
+  const cos = Float32Array.from({ length: THETA_STEPS }, (_, t) => Math.cos((t * Math.PI) / THETA_STEPS));
+  const sin = Float32Array.from({ length: THETA_STEPS }, (_, t) => Math.sin((t * Math.PI) / THETA_STEPS));
+  const acc = new Int32Array(THETA_STEPS * rhoBins);
+
+  const vote = (i: number, delta: number) => {
+    for (let t = 0; t < THETA_STEPS; t++) {
+      acc[t * rhoBins + Math.round(xs[i] * cos[t] + ys[i] * sin[t]) + diag] += delta;
+    }
+  };
+  for (let i = 0; i < n; i++) vote(i, 1);
+
+  const alive = new Uint8Array(n).fill(1);
+  const explained = new Uint8Array(n);
+  const segments: LineSegment[] = [];
+
+  for (let iteration = 0; iteration < MAX_LINES; iteration++) {
+    let best = 0;
+    let bestBin = -1;
+    for (let k = 0; k < acc.length; k++) {
+      if (acc[k] > best) {
+        best = acc[k];
+        bestBin = k;
+      }
+    }
+    if (best < MIN_VOTES) break;
+
+    const t = Math.floor(bestBin / rhoBins);
+    const rho = (bestBin % rhoBins) - diag;
+    const near: number[] = [];
+    for (let i = 0; i < n; i++) {
+      if (alive[i] && Math.abs(xs[i] * cos[t] + ys[i] * sin[t] - rho) <= LINE_TOLERANCE) near.push(i);
+    }
+
+    // Split the pixels along the line wherever they leave a gap
+    const along = (i: number) => -xs[i] * sin[t] + ys[i] * cos[t];
+    near.sort((a, b) => along(a) - along(b));
+    let runStart = 0;
+    for (let k = 1; k <= near.length; k++) {
+      if (k < near.length && along(near[k]) - along(near[k - 1]) <= MAX_GAP) continue;
+
+      const run = near.slice(runStart, k);
+      runStart = k;
+      const length = along(run[run.length - 1]) - along(run[0]);
+      if (length < MIN_SEGMENT_LENGTH || run.length < length * MIN_FILL) continue;
+
+      const half = Math.floor(run.length / 2);
+      const first = fitLine(xs, ys, run.slice(0, half)).dir;
+      const second = fitLine(xs, ys, run.slice(half)).dir;
+      if (Math.acos(Math.min(1, Math.abs(first.x * second.x + first.y * second.y))) > MAX_BEND) continue;
+
+      const { origin, dir } = fitLine(xs, ys, run);
+      const project = (i: number) => (xs[i] - origin.x) * dir.x + (ys[i] - origin.y) * dir.y;
+      const offsets = run.map(project);
+      const lo = Math.min(...offsets);
+      const hi = Math.max(...offsets);
+      segments.push({
+        from: { x: origin.x + dir.x * lo, y: origin.y + dir.y * lo },
+        to: { x: origin.x + dir.x * hi, y: origin.y + dir.y * hi },
+      });
+      for (const i of run) explained[i] = 1;
+    }
+
+    for (const i of near) {
+      alive[i] = 0;
+      vote(i, -1);
+    }
+  }
+
+  return { segments, explained };
+};
+
+// Groups points whose pixels lie within CONNECT_RADIUS of each other
+const findComponents = (xs: number[], ys: number[], indices: number[], width: number, height: number) => {
+  const grid = new Int32Array(width * height).fill(-1);
+  for (const i of indices) grid[ys[i] * width + xs[i]] = i;
+
+  const components: number[][] = [];
+  for (const seed of indices) {
+    if (grid[ys[seed] * width + xs[seed]] < 0) continue;
+    grid[ys[seed] * width + xs[seed]] = -1;
+    const component = [seed];
+    for (let k = 0; k < component.length; k++) {
+      const i = component[k];
+      for (let dy = -CONNECT_RADIUS; dy <= CONNECT_RADIUS; dy++) {
+        for (let dx = -CONNECT_RADIUS; dx <= CONNECT_RADIUS; dx++) {
+          const x = xs[i] + dx;
+          const y = ys[i] + dy;
+          if (x < 0 || y < 0 || x >= width || y >= height) continue;
+          const j = grid[y * width + x];
+          if (j < 0) continue;
+          grid[y * width + x] = -1;
+          component.push(j);
+        }
+      }
+    }
+    components.push(component);
+  }
+
+  return components.sort((a, b) => b.length - a.length);
+};
+
+// Algebraic conic fit (smallest eigenvector of the scatter matrix) on
+// normalized coordinates, converted to centre / radii / rotation
+const fitEllipse = (xs: number[], ys: number[], indices: number[]): DetectedEllipse | null => {
+  const n = indices.length;
+  const mx = indices.reduce((sum, i) => sum + xs[i], 0) / n;
+  const my = indices.reduce((sum, i) => sum + ys[i], 0) / n;
+  const s = Math.sqrt(indices.reduce((sum, i) => sum + (xs[i] - mx) ** 2 + (ys[i] - my) ** 2, 0) / n) || 1;
+
+  const S = Array.from({ length: 6 }, () => new Array(6).fill(0));
+  for (const i of indices) {
+    const x = (xs[i] - mx) / s;
+    const y = (ys[i] - my) / s;
+    const row = [x * x, x * y, y * y, x, y, 1];
+    for (let r = 0; r < 6; r++) {
+      for (let c = 0; c < 6; c++) S[r][c] += row[r] * row[c];
+    }
+  }
+  const [a, b, c, d, e, f] = smallestEigenvector(S);
+
+  const det = 4 * a * c - b * b;
+  if (det <= 1e-12) return null;
+  const x0 = (b * e - 2 * c * d) / det;
+  const y0 = (b * d - 2 * a * e) / det;
+  const f0 = a * x0 * x0 + b * x0 * y0 + c * y0 * y0 + d * x0 + e * y0 + f;
+
+  const mean = (a + c) / 2;
+  const spread = Math.hypot((a - c) / 2, b / 2);
+  const r1 = -f0 / (mean + spread);
+  const r2 = -f0 / (mean - spread);
+  if (r1 <= 0 || r2 <= 0) return null;
+
+  return {
+    center: { x: x0 * s + mx, y: y0 * s + my },
+    radiusX: Math.sqrt(r1) * s,
+    radiusY: Math.sqrt(r2) * s,
+    rotation: 0.5 * Math.atan2(b, a - c),
+  };
+};
+
+// Point in the ellipse's own frame, scaled so the ellipse is the unit circle
+const toUnitCircle = (ellipse: DetectedEllipse, p: Point): Point => {
+  const cos = Math.cos(ellipse.rotation);
+  const sin = Math.sin(ellipse.rotation);
+  const dx = p.x - ellipse.center.x;
+  const dy = p.y - ellipse.center.y;
+  return {
+    x: (dx * cos + dy * sin) / ellipse.radiusX,
+    y: (-dx * sin + dy * cos) / ellipse.radiusY,
+  };
+};
+
+const ellipseError = (ellipse: DetectedEllipse, xs: number[], ys: number[], indices: number[]) =>
+  indices.reduce((sum, i) => {
+    const u = toUnitCircle(ellipse, { x: xs[i], y: ys[i] });
+    return sum + Math.abs(Math.hypot(u.x, u.y) - 1);
+  }, 0) / indices.length;
+
+// Fraction of the ellipse's circumference (in 30° sectors) covered by points
+const ellipseCoverage = (ellipse: DetectedEllipse, xs: number[], ys: number[], indices: number[]) => {
+  const sectors = new Set<number>();
+  for (const i of indices) {
+    const u = toUnitCircle(ellipse, { x: xs[i], y: ys[i] });
+    sectors.add(Math.floor(((Math.atan2(u.y, u.x) + Math.PI) / (2 * Math.PI)) * 12) % 12);
+  }
+  return sectors.size / 12;
+};
+
+const distanceToSegment = (p: Point, segment: LineSegment) => {
+  const dx = segment.to.x - segment.from.x;
+  const dy = segment.to.y - segment.from.y;
+  const lengthSq = dx * dx + dy * dy || 1;
+  const t = Math.max(0, Math.min(1, ((p.x - segment.from.x) * dx + (p.y - segment.from.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (segment.from.x + t * dx), p.y - (segment.from.y + t * dy));
+};
+
+const intersectSegments = (a: LineSegment, b: LineSegment): Point | null => {
+  const d1 = { x: a.to.x - a.from.x, y: a.to.y - a.from.y };
+  const d2 = { x: b.to.x - b.from.x, y: b.to.y - b.from.y };
+  const cross = d1.x * d2.y - d1.y * d2.x;
+  const sinAngle = Math.abs(cross) / (Math.hypot(d1.x, d1.y) * Math.hypot(d2.x, d2.y));
+  if (sinAngle < Math.sin(MIN_JUNCTION_ANGLE)) return null;
+
+  const t = ((b.from.x - a.from.x) * d2.y - (b.from.y - a.from.y) * d2.x) / cross;
+  const p = { x: a.from.x + t * d1.x, y: a.from.y + t * d1.y };
+  return distanceToSegment(p, a) <= JUNCTION_TOLERANCE && distanceToSegment(p, b) <= JUNCTION_TOLERANCE ? p : null;
+};
+
+const intersectSegmentEllipse = (segment: LineSegment, ellipse: DetectedEllipse): Point[] => {
+  // Solve |from' + t * dir'| = 1 in the ellipse's unit-circle frame
+  const p = toUnitCircle(ellipse, segment.from);
+  const q = toUnitCircle(ellipse, segment.to);
+  const dx = q.x - p.x;
+  const dy = q.y - p.y;
+  const a = dx * dx + dy * dy;
+  const b = 2 * (p.x * dx + p.y * dy);
+  const c = p.x * p.x + p.y * p.y - 1;
+  const disc = b * b - 4 * a * c;
+  if (a < 1e-12 || disc < 0) return [];
+
+  return [(-b - Math.sqrt(disc)) / (2 * a), (-b + Math.sqrt(disc)) / (2 * a)]
+    .map(t => ({
+      x: segment.from.x + t * (segment.to.x - segment.from.x),
+      y: segment.from.y + t * (segment.to.y - segment.from.y),
+    }))
+    .filter(point => distanceToSegment(point, segment) <= JUNCTION_TOLERANCE);
+};
+
+export const detectPitchLinesInImage = (image: ImageData): LineDetection => {
+  const { width, height } = image;
+  const mask = segmentLinePixels(image);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    xs.push(i % width);
+    ys.push(Math.floor(i / width));
+  }
+
+  const { segments, explained } = findSegments(xs, ys, width, height);
+
+  // Pixels no straight line explained are arcs of the circles, spots or noise
+  const residual = xs.map((_, i) => i).filter(i => !explained[i]);
+  const components = findComponents(xs, ys, residual, width, height);
+  const absorbed = new Set<number>();
+  const ellipses: DetectedEllipse[] = [];
+  const spots: Point[] = [];
+
+  components.forEach((component, index) => {
+    if (absorbed.has(index) || component.length < MIN_ELLIPSE_POINTS || ellipses.length >= 2) return;
+
+    // Lines crossing a circle split it into arcs; gather the arcs that agree
+    let points = component;
+    let ellipse = fitEllipse(xs, ys, points);
+    if (!ellipse) return;
+    components.forEach((other, otherIndex) => {
+      if (otherIndex === index || absorbed.has(otherIndex) || other.length < 10) return;
+      if (ellipseError(ellipse!, xs, ys, other) > MAX_ELLIPSE_ERROR) return;
+      absorbed.add(otherIndex);
+      points = [...points, ...other];
+    });
+    ellipse = fitEllipse(xs, ys, points);
+
+    if (
+      ellipse &&
+      Math.min(ellipse.radiusX, ellipse.radiusY) >= 10 &&
+      Math.max(ellipse.radiusX, ellipse.radiusY) <= width &&
+      ellipseError(ellipse, xs, ys, points) <= MAX_ELLIPSE_ERROR &&
+      ellipseCoverage(ellipse, xs, ys, points) >= 1 / 3
+    ) {
+      ellipses.push(ellipse);
+      absorbed.add(index);
+    }
+  });
+
+  components.forEach((component, index) => {
+    if (absorbed.has(index) || component.length < 3) return;
+    const cxs = component.map(i => xs[i]);
+    const cys = component.map(i => ys[i]);
+    if (Math.max(...cxs) - Math.min(...cxs) > MAX_SPOT_SIZE || Math.max(...cys) - Math.min(...cys) > MAX_SPOT_SIZE) return;
+    const spot = {
+      x: cxs.reduce((sum, x) => sum + x, 0) / component.length,
+      y: cys.reduce((sum, y) => sum + y, 0) / component.length,
+    };
+    // Stray pixels at the edge of a thick line are not spots
+    if (segments.some(segment => distanceToSegment(spot, segment) <= 2 * LINE_TOLERANCE)) return;
+    spots.push(spot);
+  });
+
+  const found: Point[] = [...spots];
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length; j++) {
+      const junction = intersectSegments(segments[i], segments[j]);
+      if (junction) found.push(junction);
+    }
+    for (const ellipse of ellipses) found.push(...intersectSegmentEllipse(segments[i], ellipse));
+  }
+
+  const candidates: Point[] = [];
+  for (const p of found) {
+    if (p.x < 0 || p.y < 0 || p.x >= width || p.y >= height) continue;
+    if (candidates.some(c => Math.hypot(c.x - p.x, c.y - p.y) < MERGE_DISTANCE)) continue;
+    candidates.push(p);
+  }
+
+  return { segments, ellipses, candidates };
+};
+
+export const scaleLineDetection = (detection: LineDetection, scale: number): LineDetection => {
+  const point = (p: Point) => ({ x: p.x * scale, y: p.y * scale });
+  return {
+    segments: detection.segments.map(s => ({ from: point(s.from), to: point(s.to) })),
+    ellipses: detection.ellipses.map(e => ({
+      ...e,
+      center: point(e.center),
+      radiusX: e.radiusX * scale,
+      radiusY: e.radiusY * scale,
+    })),
+    candidates: detection.candidates.map(point),
+  };
+};
+
+// Nearest candidate within `radius` of a click, or the click itself
+export const snapToCandidate = (point: Point, candidates: Point[], radius = SNAP_RADIUS): Point => {
+  let best = point;
+  let bestDistance = radius;
+  for (const candidate of candidates) {
+    const distance = Math.hypot(candidate.x - point.x, candidate.y - point.y);
+    if (distance <= bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+// Pairs landmarks projected by an approximate calibration with the nearest
+// detected candidates, one-to-one, closest pairs first
+export const matchLandmarks = (
+  landmarks: PitchLandmark[],
+  candidates: Point[],
+  camera: CameraModel,
+  radius = MATCH_RADIUS
+): { landmark: PitchLandmark; point: Point }[] => {
+  const pairs: { landmark: PitchLandmark; candidate: number; distance: number }[] = [];
+  for (const landmark of landmarks) {
+    // Landmarks behind the camera would mirror into the frame
+    if (!clipSegmentToFront(camera, landmark, landmark)) continue;
+    const projected = projectToImage(camera, landmark);
+    if (!isFinite(projected.x) || !isFinite(projected.y)) continue;
+    candidates.forEach((candidate, index) => {
+      const distance = Math.hypot(candidate.x - projected.x, candidate.y - projected.y);
+      if (distance <= radius) pairs.push({ landmark, candidate: index, distance });
+    });
+  }
+  pairs.sort((a, b) => a.distance - b.distance);
+
+  const usedLandmarks = new Set<string>();
+  const usedCandidates = new Set<number>();
+  const matches: { landmark: PitchLandmark; point: Point }[] = [];
+  for (const pair of pairs) {
+    if (usedLandmarks.has(pair.landmark.id) || usedCandidates.has(pair.candidate)) continue;
+    usedLandmarks.add(pair.landmark.id);
+    usedCandidates.add(pair.candidate);
+    matches.push({ landmark: pair.landmark, point: candidates[pair.candidate] });
+  }
+  return matches;
+};
@@ -0,0 +1,11 @@
+import { detectPitchLinesInImage } from "./line-detection";
+
+// Runs the pixel work off the main thread so playback and the UI stay responsive
+self.onmessage = (event: MessageEvent<{ id: number; image: ImageData }>) => {
+  const { id, image } = event.data;
+  try {
+    self.postMessage({ id, detection: detectPitchLinesInImage(image) });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,116 @@
+import { Group, Line, Polyline, Text, type Canvas, type FabricObject } from "fabric";
+import { clipSegmentToFront, projectToImage, type CameraModel } from "./camera";
+import { dragFieldPoints, isFinitePoint, setGroupParts } from "./field-group";
+import type { Point } from "./homography";
+
+// Dimension line through points on the pitch, kept in field meters
+export interface MeasurementData {
+  points: Point[];
+  showAngle: boolean;
+  color: string;
+  fontSize: number; // video pixels
+}
+
+export type MeasurementObject = Group & { measurement: MeasurementData };
+
+export const MEASUREMENT_PROPERTIES = ["measurement"];
+
+export const isMeasurement = (object: FabricObject): object is MeasurementObject =>
+  object instanceof Group && !!(object as FabricObject & { measurement?: MeasurementData }).measurement;
+
+// Length in meters and the acute angle, in degrees, to the touchlines
+export const measureSegment = (from: Point, to: Point) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const angle = (Math.atan2(Math.abs(dy), Math.abs(dx)) * 180) / Math.PI;
+  return { length: Math.hypot(dx, dy), angle };
+};
+
+export const getMeasuredLength = (points: Point[]) =>
+  points.slice(1).reduce((sum, p, i) => sum + measureSegment(points[i], p).length, 0);
+
+const label = (text: string, at: Point, { color, fontSize }: MeasurementData) =>
+  new Text(text, {
+    left: at.x,
+    top: at.y,
+    originX: "center",
+    originY: "center",
+    fontSize,
+    fontFamily: "Arial",
+    fill: "#FFFFFF",
+    backgroundColor: color,
+  });
+
+// Line, end ticks and labels in video pixels, null once part of it is behind
+// the camera
+const buildParts = (data: MeasurementData, camera: CameraModel): FabricObject[] | null => {
+  const { points, color, fontSize, showAngle } = data;
+  if (!points.every(p => clipSegmentToFront(camera, p, p))) return null;
+  const image = points.map(p => projectToImage(camera, p));
+  if (!image.every(isFinitePoint)) return null;
+
+  const strokeWidth = Math.max(1, fontSize / 7);
+  const parts: FabricObject[] = [new Polyline(image, { fill: "transparent", stroke: color, strokeWidth })];
+
+  // Ticks across the line at every point, labels beside every segment
+  const normal = (a: Point, b: Point) => {
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    return { x: -(b.y - a.y) / length, y: (b.x - a.x) / length };
+  };
+  image.forEach((p, i) => {
+    const n = normal(image[Math.max(0, i - 1)], image[Math.min(image.length - 1, i + 1)]);
+    const tick = fontSize * 0.4;
+    parts.push(new Line([p.x - n.x * tick, p.y - n.y * tick, p.x + n.x * tick, p.y + n.y * tick], { stroke: color, strokeWidth }));
+  });
+  for (let i = 1; i < points.length; i++) {
+    const { length, angle } = measureSegment(points[i - 1], points[i]);
+    if (length === 0) continue;
+    const n = normal(image[i - 1], image[i]);
+    // Above the line whichever way it was drawn
+    const side = n.y > 0 ? -1 : 1;
+    const at = {
+      x: (image[i - 1].x + image[i].x) / 2 + side * n.x * fontSize,
+      y: (image[i - 1].y + image[i].y) / 2 + side * n.y * fontSize,
+    };
+    parts.push(label(showAngle ? `${length.toFixed(1)} m · ${angle.toFixed(0)}°` : `${length.toFixed(1)} m`, at, data));
+  }
+  if (points.length > 2) {
+    const end = image[image.length - 1];
+    parts.push(label(`Total ${getMeasuredLength(points).toFixed(1)} m`, { x: end.x, y: end.y + fontSize * 1.5 }, data));
+  }
+  return parts;
+};
+
+export const renderMeasurement = (object: MeasurementObject, camera: CameraModel) => {
+  setGroupParts(object, buildParts(object.measurement, camera));
+};
+
+export const createMeasurement = (
+  points: Point[],
+  options: Omit<MeasurementData, "points">,
+  camera: CameraModel
+): MeasurementObject => {
+  const object = new Group([], { hasControls: false, objectCaching: false }) as MeasurementObject;
+  object.measurement = { ...options, points };
+  renderMeasurement(object, camera);
+  return object;
+};
+
+export const setMeasurementPoints = (object: MeasurementObject, points: Point[], camera: CameraModel) => {
+  object.measurement = { ...object.measurement, points };
+  renderMeasurement(object, camera);
+};
+
+// After the measurement was dragged as a whole
+export const moveMeasurement = (object: MeasurementObject, camera: CameraModel) => {
+  const line = object.getObjects()[0];
+  if (!(line instanceof Polyline)) return;
+  setMeasurementPoints(object, dragFieldPoints(line, object.measurement.points, camera), camera);
+};
+
+export const reprojectMeasurements = (canvas: Canvas, camera: CameraModel) => {
+  for (const object of canvas.getObjects()) {
+    if (isMeasurement(object)) renderMeasurement(object, camera);
+  }
+  canvas.requestRenderAll();
+};
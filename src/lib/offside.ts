@@ -0,0 +1,167 @@
+import { Control, Group, Point as FabricPoint, Polygon, Polyline, Text, util, type Canvas, type FabricObject } from "fabric";
+import { clipSegmentToFront, projectToField, projectToImage, type CameraModel } from "./camera";
+import { isFinitePoint, setGroupParts } from "./field-group";
+import type { Point } from "./homography";
+import type { PitchModel } from "./pitch";
+
+// Offside line through the last defender's feet, parallel to the goal lines,
+// with an optional second line through the attacker's. Field meters. The lines
+// run touchline to touchline of the pitch they are rendered on, so they follow
+// edits to its width.
+export interface OffsideData {
+  defender: Point;
+  attacker?: Point;
+  color: string;
+  fontSize: number; // video pixels
+}
+
+export type OffsideObject = Group & { offside: OffsideData };
+
+export const OFFSIDE_PROPERTIES = ["offside"];
+
+// Straight field lines bend under lens distortion, so they are drawn in pieces
+const LINE_STEPS = 32;
+const FOOT_RADIUS = 0.4; // meters
+const FOOT_SEGMENTS = 16;
+
+export const isOffside = (object: FabricObject): object is OffsideObject =>
+  object instanceof Group && !!(object as FabricObject & { offside?: OffsideData }).offside;
+
+// Gap between the two lines along the pitch, in centimeters
+export const getOffsideGap = ({ defender, attacker }: OffsideData) =>
+  attacker ? Math.round(Math.abs(attacker.x - defender.x) * 100) : null;
+
+// Visible part of the line across the pitch at x, in video pixels
+const projectLine = (x: number, width: number, camera: CameraModel): Point[] | null => {
+  const clipped = clipSegmentToFront(camera, { x, y: 0 }, { x, y: width });
+  if (!clipped) return null;
+  const [from, to] = clipped;
+  const points = Array.from({ length: LINE_STEPS + 1 }, (_, i) =>
+    projectToImage(camera, { x, y: from.y + ((to.y - from.y) * i) / LINE_STEPS })
+  );
+  return points.every(isFinitePoint) ? points : null;
+};
+
+const foot = (at: Point, color: string, camera: CameraModel) =>
+  new Polygon(
+    Array.from({ length: FOOT_SEGMENTS }, (_, i) => {
+      const angle = (i / FOOT_SEGMENTS) * 2 * Math.PI;
+      return projectToImage(camera, { x: at.x + FOOT_RADIUS * Math.cos(angle), y: at.y + FOOT_RADIUS * Math.sin(angle) });
+    }),
+    { fill: color, stroke: "#FFFFFF", strokeWidth: 1 }
+  );
+
+// Points behind the camera still project, mirrored into the frame
+const onGround = (camera: CameraModel, p: Point) => isFinitePoint(p) && !!clipSegmentToFront(camera, p, p);
+
+const buildParts = (data: OffsideData, camera: CameraModel, { width }: PitchModel): FabricObject[] | null => {
+  const { defender, attacker, color, fontSize } = data;
+  const players = attacker ? [defender, attacker] : [defender];
+  if (!players.every(p => onGround(camera, p))) return null;
+
+  const strokeWidth = Math.max(1.5, fontSize / 6);
+  const parts: FabricObject[] = [];
+  for (const [i, player] of players.entries()) {
+    const line = projectLine(player.x, width, camera);
+    if (!line) return null;
+    parts.push(new Polyline(line, {
+      fill: "transparent",
+      stroke: color,
+      strokeWidth,
+      // The attacker's line is dashed
+      strokeDashArray: i === 0 ? undefined : [strokeWidth * 4, strokeWidth * 3],
+    }));
+    parts.push(foot(player, color, camera));
+  }
+
+  const gap = getOffsideGap(data);
+  if (attacker && gap !== null) {
+    const at = projectToImage(camera, attacker);
+    parts.push(new Text(`${gap} cm`, {
+      left: at.x,
+      top: at.y + fontSize,
+      originX: "center",
+      originY: "top",
+      fontSize,
+      fontFamily: "Arial",
+      fill: "#FFFFFF",
+      backgroundColor: color,
+    }));
+  }
+  return parts;
+};
+
+export const renderOffside = (object: OffsideObject, camera: CameraModel, pitch: PitchModel) => {
+  setGroupParts(object, buildParts(object.offside, camera, pitch));
+};
+
+// Null when the click isn't on the visible ground
+export const createOffside = (
+  at: Point,
+  options: Omit<OffsideData, "defender" | "attacker">,
+  camera: CameraModel,
+  pitch: PitchModel
+) => {
+  const defender = projectToField(camera, at);
+  if (!onGround(camera, defender)) return null;
+  const object = new Group([], { objectCaching: false }) as OffsideObject;
+  object.offside = { ...options, defender };
+  renderOffside(object, camera, pitch);
+  return object;
+};
+
+// Attacker's feet in video pixels, ignored when not on the visible ground
+export const setOffsideAttacker = (object: OffsideObject, at: Point, camera: CameraModel, pitch: PitchModel) => {
+  const attacker = projectToField(camera, at);
+  if (!onGround(camera, attacker)) return;
+  object.offside = { ...object.offside, attacker };
+  renderOffside(object, camera, pitch);
+};
+
+// A handle at each player's feet. Lines across the whole pitch only ever move
+// along it, through those handles.
+export const attachOffsideControls = (
+  object: OffsideObject,
+  getCamera: () => CameraModel | null | undefined,
+  getPitch: () => PitchModel
+) => {
+  const keys = ["defender", ...(object.offside.attacker ? ["attacker"] : [])] as const;
+  object.controls = Object.fromEntries(keys.map(key => [
+    key,
+    new Control({
+      actionName: "modifyOffside",
+      cursorStyle: "ew-resize",
+      positionHandler: (_dim, _matrix, target: OffsideObject) => {
+        const camera = getCamera();
+        const point = target.offside[key];
+        if (!camera || !point) return new FabricPoint(NaN, NaN);
+        const { x, y } = projectToImage(camera, point);
+        return util.transformPoint(new FabricPoint(x, y), target.getViewportTransform());
+      },
+      actionHandler: (_event, { target }, x, y) => {
+        const camera = getCamera();
+        if (!camera || !isOffside(target)) return false;
+        const point = projectToField(camera, { x, y });
+        if (!onGround(camera, point)) return false;
+        target.offside = { ...target.offside, [key]: point };
+        renderOffside(target, camera, getPitch());
+        return true;
+      },
+    }),
+  ]));
+  object.set({
+    hasBorders: false,
+    lockMovementX: true,
+    lockMovementY: true,
+    lockRotation: true,
+    lockScalingX: true,
+    lockScalingY: true,
+  });
+};
+
+export const reprojectOffsides = (canvas: Canvas, camera: CameraModel, pitch: PitchModel) => {
+  for (const object of canvas.getObjects()) {
+    if (isOffside(object)) renderOffside(object, camera, pitch);
+  }
+  canvas.requestRenderAll();
+};
@@ -0,0 +1,217 @@
+import {
+  Circle,
+  Control,
+  Ellipse,
+  Line,
+  Path,
+  Point as FabricPoint,
+  Polygon,
+  Polyline,
+  Rect,
+  util,
+  type Canvas,
+  type FabricObject,
+} from "fabric";
+import { clipSegmentToFront, projectToField, projectToImage, type CameraModel } from "./camera";
+import {
+  getGroundHandles,
+  getGroundOutline,
+  moveGroundHandle,
+  translateGroundShape,
+  type GroundShape,
+} from "./ground-shapes";
+import { GroundZone } from "./ground-zone";
+import { isFinitePoint } from "./field-group";
+import type { Point } from "./homography";
+
+// Pitch-anchored annotations keep their geometry in field meters and are
+// re-projected whenever the calibration changes. Shapes become ground polygons
+// with one field point per vertex; text can't be put in perspective, so only
+// the field point under its centre is kept. Ground shapes also keep the shape
+// they were drawn as, which their edit handles work on.
+export type AnchoredObject = FabricObject & { fieldPoints?: Point[]; fieldAnchor?: Point; groundShape?: GroundShape };
+
+// Custom properties to keep when serializing a canvas
+export const ANCHOR_PROPERTIES = ["fieldPoints", "fieldAnchor", "groundShape"];
+
+const CIRCLE_SEGMENTS = 48;
+
+// Outline of a shape in scene (video pixel) coordinates, null for text
+const getOutline = (object: FabricObject): { points: Point[]; closed: boolean } | null => {
+  const matrix = object.calcTransformMatrix();
+  const toScene = (points: Point[], offset: Point = { x: 0, y: 0 }) =>
+    points.map(p => util.transformPoint(new FabricPoint(p.x - offset.x, p.y - offset.y), matrix));
+
+  if (object instanceof Rect) {
+    const w = object.width / 2;
+    const h = object.height / 2;
+    return { points: toScene([{ x: -w, y: -h }, { x: w, y: -h }, { x: w, y: h }, { x: -w, y: h }]), closed: true };
+  }
+  if (object instanceof Circle || object instanceof Ellipse) {
+    const [rx, ry] = object instanceof Circle ? [object.radius, object.radius] : [object.rx, object.ry];
+    const points = Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+      const angle = (i / CIRCLE_SEGMENTS) * 2 * Math.PI;
+      return { x: rx * Math.cos(angle), y: ry * Math.sin(angle) };
+    });
+    return { points: toScene(points), closed: true };
+  }
+  if (object instanceof Line) {
+    const { x1, y1, x2, y2 } = object.calcLinePoints();
+    return { points: toScene([{ x: x1, y: y1 }, { x: x2, y: y2 }]), closed: false };
+  }
+  if (object instanceof Polyline) {
+    return { points: toScene(object.points, object.pathOffset), closed: object instanceof Polygon };
+  }
+  if (object instanceof Path) {
+    // Free-hand strokes are short curve pieces; their end points are enough
+    const ends = object.path
+      .filter(command => command.length >= 3)
+      .map(command => ({ x: command[command.length - 2] as number, y: command[command.length - 1] as number }));
+    return { points: toScene(ends, object.pathOffset), closed: false };
+  }
+  return null;
+};
+
+// Points are absolute scene coordinates, so the object transform is reset
+const setOutline = (object: Polyline, points: Point[]) => {
+  object.set({
+    points: points.map(p => new FabricPoint(p.x, p.y)),
+    scaleX: 1,
+    scaleY: 1,
+    angle: 0,
+    skewX: 0,
+    skewY: 0,
+    flipX: false,
+    flipY: false,
+  });
+  object.setBoundingBox(true);
+  object.setCoords();
+};
+
+const anchorCenter = (object: AnchoredObject, camera: CameraModel) => {
+  const anchor = projectToField(camera, object.getCenterPoint());
+  if (isFinitePoint(anchor)) object.fieldAnchor = anchor;
+};
+
+// Turns a freshly drawn shape into its pitch-anchored version
+export const toPitchAnchored = (object: FabricObject, camera: CameraModel): AnchoredObject => {
+  const outline = getOutline(object);
+  if (!outline) {
+    anchorCenter(object, camera);
+    return object;
+  }
+
+  const fieldPoints = outline.points.map(p => projectToField(camera, p));
+  if (!fieldPoints.every(isFinitePoint)) return object;
+
+  const Shape = outline.closed ? Polygon : Polyline;
+  const ground: AnchoredObject = new Shape(outline.points, {
+    stroke: object.stroke,
+    strokeWidth: object.strokeWidth,
+    fill: outline.closed ? object.fill : "transparent",
+    strokeLineJoin: "round",
+    strokeLineCap: "round",
+    cornerStyle: object.cornerStyle,
+    cornerColor: object.cornerColor,
+    cornerSize: object.cornerSize,
+  });
+  ground.fieldPoints = fieldPoints;
+  return ground;
+};
+
+export const setGroundShape = (object: Polyline, shape: GroundShape, camera: CameraModel) => {
+  const fieldPoints = getGroundOutline(shape);
+  (object as AnchoredObject).groundShape = shape;
+  (object as AnchoredObject).fieldPoints = fieldPoints;
+  object.visible = fieldPoints.every(p => clipSegmentToFront(camera, p, p));
+  setOutline(object, fieldPoints.map(p => projectToImage(camera, p)));
+};
+
+// Polygons are zones, labelled with their size
+export const createGroundObject = (shape: GroundShape, camera: CameraModel, options: ConstructorParameters<typeof Polygon>[1]) => {
+  const Shape = shape.kind === "polygon" ? GroundZone : Polygon;
+  const object = new Shape([], { strokeLineJoin: "round", objectCaching: shape.kind !== "polygon", ...options });
+  setGroundShape(object, shape, camera);
+  return object;
+};
+
+// Handles that edit the shape in meters; the camera is looked up on use since
+// it changes with the video time
+export const attachGroundControls = (object: AnchoredObject, getCamera: () => CameraModel | null | undefined) => {
+  if (!object.groundShape) return;
+  const handles = getGroundHandles(object.groundShape);
+  object.controls = Object.fromEntries(handles.map((_, index) => [
+    `ground${index}`,
+    new Control({
+      actionName: "modifyGround",
+      cursorStyle: "pointer",
+      positionHandler: (_dim, _matrix, target: AnchoredObject) => {
+        const camera = getCamera();
+        const handle = target.groundShape && getGroundHandles(target.groundShape)[index];
+        if (!camera || !handle) return new FabricPoint(NaN, NaN);
+        const { x, y } = projectToImage(camera, handle);
+        return util.transformPoint(new FabricPoint(x, y), target.getViewportTransform());
+      },
+      actionHandler: (_event, { target }, x, y) => {
+        const camera = getCamera();
+        const { groundShape } = target as AnchoredObject;
+        if (!camera || !groundShape || !(target instanceof Polyline)) return false;
+        const to = projectToField(camera, { x, y });
+        if (!isFinitePoint(to)) return false;
+        setGroundShape(target, moveGroundHandle(groundShape, index, to), camera);
+        return true;
+      },
+    }),
+  ]));
+  object.set({ hasBorders: false, lockRotation: true, lockScalingX: true, lockScalingY: true });
+};
+
+// After the user moved or transformed an anchored object
+export const updatePitchAnchor = (object: AnchoredObject, camera: CameraModel) => {
+  const { groundShape, fieldPoints } = object;
+  if (groundShape && fieldPoints && object instanceof Polyline) {
+    // Dragged as a whole: the field point under the old centre follows the move
+    const from = projectToImage(camera, fieldPoints[0]);
+    const moved = getOutline(object)!.points[0];
+    const center = {
+      x: fieldPoints.reduce((sum, p) => sum + p.x, 0) / fieldPoints.length,
+      y: fieldPoints.reduce((sum, p) => sum + p.y, 0) / fieldPoints.length,
+    };
+    const screenCenter = projectToImage(camera, center);
+    const target = projectToField(camera, { x: screenCenter.x + moved.x - from.x, y: screenCenter.y + moved.y - from.y });
+    if (!isFinitePoint(target)) return;
+    setGroundShape(object, translateGroundShape(groundShape, { x: target.x - center.x, y: target.y - center.y }), camera);
+  } else if (fieldPoints && object instanceof Polyline) {
+    const points = getOutline(object)!.points;
+    const moved = points.map(p => projectToField(camera, p));
+    if (!moved.every(isFinitePoint)) return;
+    (object as AnchoredObject).fieldPoints = moved;
+    setOutline(object, points);
+  } else if (object.fieldAnchor) {
+    anchorCenter(object, camera);
+  }
+};
+
+export const setFieldPoints = (object: Polyline, fieldPoints: Point[], camera: CameraModel) => {
+  (object as AnchoredObject).fieldPoints = fieldPoints;
+  // Hidden rather than mirrored once part of it is behind the camera
+  object.visible = fieldPoints.every(p => clipSegmentToFront(camera, p, p));
+  if (object.visible) setOutline(object, fieldPoints.map(p => projectToImage(camera, p)));
+};
+
+export const setFieldAnchor = (object: AnchoredObject, anchor: Point, camera: CameraModel) => {
+  object.fieldAnchor = anchor;
+  const center = projectToImage(camera, anchor);
+  if (!isFinitePoint(center)) return;
+  object.setPositionByOrigin(new FabricPoint(center.x, center.y), "center", "center");
+  object.setCoords();
+};
+
+export const reprojectAnchored = (canvas: Canvas, camera: CameraModel) => {
+  for (const object of canvas.getObjects() as AnchoredObject[]) {
+    const { fieldPoints, fieldAnchor } = object;
+    if (fieldPoints && object instanceof Polyline) setFieldPoints(object, fieldPoints, camera);
+    else if (fieldAnchor) setFieldAnchor(object, fieldAnchor, camera);
+  }
+  canvas.requestRenderAll();
+};
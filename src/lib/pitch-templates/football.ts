@@ -0,0 +1,200 @@
+import type { PitchLandmark } from "../landmarks";
+import type { CalibrationPreset, PitchLine, PitchMarkings, PitchModel, PitchRegion, PitchTemplate } from "../pitch";
+import { arc, circle, line, rect, spot } from "./primitives";
+
+interface FootballTemplateOptions {
+  id: string;
+  name: string;
+  length: number;
+  width: number;
+  lengthRange: { min: number; max: number };
+  widthRange: { min: number; max: number };
+  // centerCircleRadius, penaltyAreaDepth/Width, goalAreaDepth/Width (0 = none),
+  // penaltySpotDistance, penaltyArcRadius (0 = none), goalWidth, goalDepth,
+  // cornerArcRadius
+  markings: PitchMarkings;
+}
+
+const BOX_INSTRUCTIONS = [
+  "Click top-left corner of small goal area",
+  "Click top-right corner of small goal area",
+  "Click bottom-left corner of small goal area",
+  "Click bottom-right corner of small goal area",
+  "Click top-left corner of large goal area",
+  "Click top-right corner of large goal area",
+  "Click bottom-left corner of large goal area",
+  "Click bottom-right corner of large goal area"
+];
+
+const CENTER_INSTRUCTIONS = [
+  "Click the Center Spot of the pitch",
+  "Click the Top of the Center Circle (closest to a goal)",
+  "Click the Right point of the Center Circle (on halfway line)",
+  "Click the Bottom of the Center Circle (furthest from a goal)",
+  "Click the Left point of the Center Circle (on halfway line)",
+  "Click the Midpoint of the Top Touchline",
+  "Click the Midpoint of the Bottom Touchline"
+];
+
+const getLandmarks = (pitch: PitchModel, m: PitchMarkings): PitchLandmark[] => {
+  const L = pitch.length;
+  const W = pitch.width;
+  const R = m.centerCircleRadius;
+  const P = m.penaltyAreaWidth / 2;
+  const G = m.goalAreaWidth / 2;
+  const post = m.goalWidth / 2;
+
+  const landmarks: PitchLandmark[] = [
+    { id: "corner-away-top", name: "Corner (away end, top)", x: 0, y: 0 },
+    { id: "corner-away-bottom", name: "Corner (away end, bottom)", x: 0, y: W },
+    { id: "corner-home-top", name: "Corner (home end, top)", x: L, y: 0 },
+    { id: "corner-home-bottom", name: "Corner (home end, bottom)", x: L, y: W },
+    { id: "halfway-top", name: "Halfway line / top touchline", x: L / 2, y: 0 },
+    { id: "halfway-bottom", name: "Halfway line / bottom touchline", x: L / 2, y: W },
+    { id: "center-spot", name: "Center spot", x: L / 2, y: W / 2 },
+    { id: "center-circle-top", name: "Center circle / halfway line (top)", x: L / 2, y: W / 2 - R },
+    { id: "center-circle-bottom", name: "Center circle / halfway line (bottom)", x: L / 2, y: W / 2 + R },
+    { id: "center-circle-away", name: "Center circle (away side)", x: L / 2 - R, y: W / 2 },
+    { id: "center-circle-home", name: "Center circle (home side)", x: L / 2 + R, y: W / 2 },
+  ];
+
+  // Both ends mirror each other around the halfway line
+  const arcRise = m.penaltyAreaDepth - m.penaltySpotDistance;
+  const arcOffset = m.penaltyArcRadius > arcRise ? Math.sqrt(m.penaltyArcRadius ** 2 - arcRise ** 2) : 0;
+  for (const [side, goalX, dir] of [
+    ["away", 0, 1],
+    ["home", L, -1],
+  ] as const) {
+    const x = (d: number) => goalX + dir * d;
+    landmarks.push(
+      { id: `${side}-box-goal-top`, name: `Penalty box / goal line (${side}, top)`, x: x(0), y: W / 2 - P },
+      { id: `${side}-box-goal-bottom`, name: `Penalty box / goal line (${side}, bottom)`, x: x(0), y: W / 2 + P },
+      { id: `${side}-box-top`, name: `Penalty box corner (${side}, top)`, x: x(m.penaltyAreaDepth), y: W / 2 - P },
+      { id: `${side}-box-bottom`, name: `Penalty box corner (${side}, bottom)`, x: x(m.penaltyAreaDepth), y: W / 2 + P },
+      { id: `${side}-post-top`, name: `Goal post (${side}, top)`, x: x(0), y: W / 2 - post },
+      { id: `${side}-post-bottom`, name: `Goal post (${side}, bottom)`, x: x(0), y: W / 2 + post },
+      { id: `${side}-penalty-spot`, name: `Penalty spot (${side})`, x: x(m.penaltySpotDistance), y: W / 2 },
+    );
+    if (m.goalAreaDepth > 0) {
+      landmarks.push(
+        { id: `${side}-six-goal-top`, name: `Goal area / goal line (${side}, top)`, x: x(0), y: W / 2 - G },
+        { id: `${side}-six-goal-bottom`, name: `Goal area / goal line (${side}, bottom)`, x: x(0), y: W / 2 + G },
+        { id: `${side}-six-top`, name: `Goal area corner (${side}, top)`, x: x(m.goalAreaDepth), y: W / 2 - G },
+        { id: `${side}-six-bottom`, name: `Goal area corner (${side}, bottom)`, x: x(m.goalAreaDepth), y: W / 2 + G },
+      );
+    }
+    if (arcOffset > 0) {
+      landmarks.push(
+        { id: `${side}-arc-top`, name: `Penalty arc / box line (${side}, top)`, x: x(m.penaltyAreaDepth), y: W / 2 - arcOffset },
+        { id: `${side}-arc-bottom`, name: `Penalty arc / box line (${side}, bottom)`, x: x(m.penaltyAreaDepth), y: W / 2 + arcOffset },
+      );
+    }
+  }
+
+  return landmarks;
+};
+
+const getLines = (pitch: PitchModel, m: PitchMarkings, regions: PitchRegion[]): PitchLine[] => {
+  const L = pitch.length;
+  const W = pitch.width;
+  const lines: PitchLine[] = [];
+
+  // Goal areas, penalty spot and arc, goal, corner arcs and goal line at one
+  // end; dir points into the pitch
+  const goalEnd = (goalX: number, dir: 1 | -1) => {
+    if (m.goalAreaDepth > 0) {
+      lines.push(...rect(
+        { x: goalX, y: W / 2 - m.goalAreaWidth / 2 },
+        { x: goalX + dir * m.goalAreaDepth, y: W / 2 + m.goalAreaWidth / 2 }
+      ));
+    }
+    lines.push(...rect(
+      { x: goalX, y: W / 2 - m.penaltyAreaWidth / 2 },
+      { x: goalX + dir * m.penaltyAreaDepth, y: W / 2 + m.penaltyAreaWidth / 2 }
+    ));
+    lines.push(spot({ x: goalX + dir * m.penaltySpotDistance, y: W / 2 }));
+    lines.push(line({ x: goalX, y: 0 }, { x: goalX, y: W }));
+
+    // Only the part of the penalty arc outside the box is marked
+    const arcRise = m.penaltyAreaDepth - m.penaltySpotDistance;
+    if (m.penaltyArcRadius > arcRise) {
+      const half = Math.acos(arcRise / m.penaltyArcRadius);
+      const facing = dir === 1 ? 0 : Math.PI;
+      lines.push(arc({ x: goalX + dir * m.penaltySpotDistance, y: W / 2 }, m.penaltyArcRadius, facing - half, facing + half));
+    }
+
+    // Goal frame behind the line
+    lines.push(...rect(
+      { x: goalX, y: W / 2 - m.goalWidth / 2 },
+      { x: goalX - dir * m.goalDepth, y: W / 2 + m.goalWidth / 2 }
+    ));
+
+    // Quarter circles sweep from the goal line into the pitch
+    const [topStart, bottomStart] = dir === 1 ? [0, -Math.PI / 2] : [Math.PI / 2, Math.PI];
+    lines.push(
+      arc({ x: goalX, y: 0 }, m.cornerArcRadius, topStart, topStart + Math.PI / 2),
+      arc({ x: goalX, y: W }, m.cornerArcRadius, bottomStart, bottomStart + Math.PI / 2),
+    );
+  };
+
+  if (regions.includes("away")) goalEnd(0, 1);
+  if (regions.includes("home")) goalEnd(L, -1);
+  if (regions.includes("center")) {
+    lines.push(
+      circle({ x: L / 2, y: W / 2 }, m.centerCircleRadius),
+      spot({ x: L / 2, y: W / 2 }),
+      line({ x: L / 2, y: 0 }, { x: L / 2, y: W }),
+      ...rect({ x: 0, y: 0 }, { x: L, y: W }),
+    );
+  }
+
+  return lines;
+};
+
+const getPresets = (m: PitchMarkings): CalibrationPreset[] => {
+  // Without a goal area the end presets use the penalty box, posts and spot instead
+  const endPreset = (side: "away" | "home", title: string): CalibrationPreset =>
+    m.goalAreaDepth > 0
+      ? {
+          id: `${side}-goal`,
+          title,
+          regions: [side],
+          landmarkIds: [
+            `${side}-six-goal-top`, `${side}-six-top`, `${side}-six-goal-bottom`, `${side}-six-bottom`,
+            `${side}-box-goal-top`, `${side}-box-top`, `${side}-box-goal-bottom`, `${side}-box-bottom`,
+          ],
+          instructions: BOX_INSTRUCTIONS,
+        }
+      : {
+          id: `${side}-goal`,
+          title,
+          regions: [side],
+          landmarkIds: [
+            `${side}-box-goal-top`, `${side}-box-top`, `${side}-box-goal-bottom`, `${side}-box-bottom`,
+            `${side}-post-top`, `${side}-post-bottom`, `${side}-penalty-spot`,
+          ],
+        };
+
+  return [
+    endPreset("away", "Away Goal Area"),
+    endPreset("home", "Home Goal Area"),
+    {
+      id: "center-circle",
+      title: "Center Circle",
+      regions: ["center"],
+      landmarkIds: [
+        "center-spot", "center-circle-top", "center-circle-home", "center-circle-bottom",
+        "center-circle-away", "halfway-top", "halfway-bottom",
+      ],
+      instructions: CENTER_INSTRUCTIONS,
+    },
+  ];
+};
+
+export const createFootballTemplate = (options: FootballTemplateOptions): PitchTemplate => ({
+  ...options,
+  presets: getPresets(options.markings),
+  defaultPreset: "center-circle",
+  getLandmarks,
+  getLines,
+});
@@ -0,0 +1,127 @@
+import type { PitchLandmark } from "../landmarks";
+import type { PitchLine, PitchMarkings, PitchModel, PitchRegion, PitchTemplate } from "../pitch";
+import { arc, circle, line, rect, spot } from "./primitives";
+
+// The futsal penalty area is two quarter circles around the posts joined by a
+// short straight line parallel to the goal line.
+const getLandmarks = (pitch: PitchModel, m: PitchMarkings): PitchLandmark[] => {
+  const L = pitch.length;
+  const W = pitch.width;
+  const R = m.centerCircleRadius;
+  const front = m.penaltyAreaLineLength / 2;
+
+  const landmarks: PitchLandmark[] = [
+    { id: "corner-away-top", name: "Corner (away end, top)", x: 0, y: 0 },
+    { id: "corner-away-bottom", name: "Corner (away end, bottom)", x: 0, y: W },
+    { id: "corner-home-top", name: "Corner (home end, top)", x: L, y: 0 },
+    { id: "corner-home-bottom", name: "Corner (home end, bottom)", x: L, y: W },
+    { id: "halfway-top", name: "Halfway line / top touchline", x: L / 2, y: 0 },
+    { id: "halfway-bottom", name: "Halfway line / bottom touchline", x: L / 2, y: W },
+    { id: "center-spot", name: "Center spot", x: L / 2, y: W / 2 },
+    { id: "center-circle-top", name: "Center circle / halfway line (top)", x: L / 2, y: W / 2 - R },
+    { id: "center-circle-bottom", name: "Center circle / halfway line (bottom)", x: L / 2, y: W / 2 + R },
+    { id: "center-circle-away", name: "Center circle (away side)", x: L / 2 - R, y: W / 2 },
+    { id: "center-circle-home", name: "Center circle (home side)", x: L / 2 + R, y: W / 2 },
+  ];
+
+  for (const [side, goalX, dir] of [
+    ["away", 0, 1],
+    ["home", L, -1],
+  ] as const) {
+    const x = (d: number) => goalX + dir * d;
+    landmarks.push(
+      { id: `${side}-area-goal-top`, name: `Penalty area / goal line (${side}, top)`, x: x(0), y: W / 2 - front - m.penaltyAreaRadius },
+      { id: `${side}-area-goal-bottom`, name: `Penalty area / goal line (${side}, bottom)`, x: x(0), y: W / 2 + front + m.penaltyAreaRadius },
+      { id: `${side}-area-front-top`, name: `Penalty area line end (${side}, top)`, x: x(m.penaltyAreaRadius), y: W / 2 - front },
+      { id: `${side}-area-front-bottom`, name: `Penalty area line end (${side}, bottom)`, x: x(m.penaltyAreaRadius), y: W / 2 + front },
+      { id: `${side}-post-top`, name: `Goal post (${side}, top)`, x: x(0), y: W / 2 - m.goalWidth / 2 },
+      { id: `${side}-post-bottom`, name: `Goal post (${side}, bottom)`, x: x(0), y: W / 2 + m.goalWidth / 2 },
+      { id: `${side}-penalty-spot`, name: `Penalty mark (${side})`, x: x(m.penaltySpotDistance), y: W / 2 },
+      { id: `${side}-second-penalty-spot`, name: `Second penalty mark (${side})`, x: x(m.secondPenaltySpotDistance), y: W / 2 },
+    );
+  }
+
+  return landmarks;
+};
+
+const getLines = (pitch: PitchModel, m: PitchMarkings, regions: PitchRegion[]): PitchLine[] => {
+  const L = pitch.length;
+  const W = pitch.width;
+  const front = m.penaltyAreaLineLength / 2;
+  const r = m.penaltyAreaRadius;
+  const lines: PitchLine[] = [];
+
+  const goalEnd = (goalX: number, dir: 1 | -1) => {
+    // Quarter circles sweep from the goal line into the pitch
+    const [topStart, bottomStart] = dir === 1 ? [-Math.PI / 2, 0] : [Math.PI, Math.PI / 2];
+    lines.push(
+      arc({ x: goalX, y: W / 2 - front }, r, topStart, topStart + Math.PI / 2),
+      arc({ x: goalX, y: W / 2 + front }, r, bottomStart, bottomStart + Math.PI / 2),
+      line({ x: goalX + dir * r, y: W / 2 - front }, { x: goalX + dir * r, y: W / 2 + front }),
+      spot({ x: goalX + dir * m.penaltySpotDistance, y: W / 2 }),
+      spot({ x: goalX + dir * m.secondPenaltySpotDistance, y: W / 2 }),
+      line({ x: goalX, y: 0 }, { x: goalX, y: W }),
+      arc({ x: goalX, y: 0 }, m.cornerArcRadius, dir === 1 ? 0 : Math.PI / 2, dir === 1 ? Math.PI / 2 : Math.PI),
+      arc({ x: goalX, y: W }, m.cornerArcRadius, dir === 1 ? -Math.PI / 2 : Math.PI, dir === 1 ? 0 : 1.5 * Math.PI),
+      ...rect(
+        { x: goalX, y: W / 2 - m.goalWidth / 2 },
+        { x: goalX - dir * m.goalDepth, y: W / 2 + m.goalWidth / 2 }
+      ),
+    );
+  };
+
+  if (regions.includes("away")) goalEnd(0, 1);
+  if (regions.includes("home")) goalEnd(L, -1);
+  if (regions.includes("center")) {
+    lines.push(
+      circle({ x: L / 2, y: W / 2 }, m.centerCircleRadius),
+      spot({ x: L / 2, y: W / 2 }),
+      line({ x: L / 2, y: 0 }, { x: L / 2, y: W }),
+      ...rect({ x: 0, y: 0 }, { x: L, y: W }),
+    );
+  }
+
+  return lines;
+};
+
+export const futsal: PitchTemplate = {
+  id: "futsal",
+  name: "Futsal",
+  length: 40,
+  width: 20,
+  lengthRange: { min: 25, max: 42 },
+  widthRange: { min: 16, max: 25 },
+  markings: {
+    centerCircleRadius: 3,
+    penaltyAreaRadius: 6,
+    penaltyAreaLineLength: 3.16,
+    penaltySpotDistance: 6,
+    secondPenaltySpotDistance: 10,
+    goalWidth: 3,
+    goalDepth: 1,
+    cornerArcRadius: 0.25,
+  },
+  presets: [
+    ...(["away", "home"] as const).map(side => ({
+      id: `${side}-area`,
+      title: side === "away" ? "Away Penalty Area" : "Home Penalty Area",
+      regions: [side],
+      landmarkIds: [
+        `${side}-area-goal-top`, `${side}-area-front-top`, `${side}-area-front-bottom`,
+        `${side}-area-goal-bottom`, `${side}-penalty-spot`, `${side}-second-penalty-spot`,
+      ],
+    })),
+    {
+      id: "center-circle",
+      title: "Center Circle",
+      regions: ["center"],
+      landmarkIds: [
+        "center-spot", "center-circle-top", "center-circle-home", "center-circle-bottom",
+        "center-circle-away", "halfway-top", "halfway-bottom",
+      ],
+    },
+  ],
+  defaultPreset: "center-circle",
+  getLandmarks,
+  getLines,
+};
@@ -0,0 +1,74 @@
+import type { PitchTemplate } from "../pitch";
+import { createFootballTemplate } from "./football";
+import { futsal } from "./futsal";
+import { rugbyUnion } from "./rugby";
+
+// Pitch templates available for a match, first one is the default
+export const PITCH_TEMPLATES: PitchTemplate[] = [
+  createFootballTemplate({
+    id: "football-11",
+    name: "Football 11v11",
+    length: 105,
+    width: 68,
+    lengthRange: { min: 90, max: 120 },
+    widthRange: { min: 45, max: 90 },
+    markings: {
+      centerCircleRadius: 9.15,
+      penaltyAreaDepth: 16.5,
+      penaltyAreaWidth: 40.32,
+      goalAreaDepth: 5.5,
+      goalAreaWidth: 18.32,
+      penaltySpotDistance: 11,
+      penaltyArcRadius: 9.15,
+      goalWidth: 7.32,
+      goalDepth: 2,
+      cornerArcRadius: 1,
+    },
+  }),
+  // Youth formats follow the FA's recommended (yard-based) dimensions
+  createFootballTemplate({
+    id: "football-9",
+    name: "Football 9v9",
+    length: 73,
+    width: 46,
+    lengthRange: { min: 64, max: 73 },
+    widthRange: { min: 41, max: 46 },
+    markings: {
+      centerCircleRadius: 6.4,
+      penaltyAreaDepth: 11.9,
+      penaltyAreaWidth: 29.26,
+      goalAreaDepth: 3.66,
+      goalAreaWidth: 12.8,
+      penaltySpotDistance: 8.23,
+      penaltyArcRadius: 6.4,
+      goalWidth: 4.88,
+      goalDepth: 1.5,
+      cornerArcRadius: 1,
+    },
+  }),
+  createFootballTemplate({
+    id: "football-7",
+    name: "Football 7v7",
+    length: 55,
+    width: 37,
+    lengthRange: { min: 46, max: 55 },
+    widthRange: { min: 27, max: 37 },
+    markings: {
+      centerCircleRadius: 4.57,
+      penaltyAreaDepth: 9.14,
+      penaltyAreaWidth: 16.46,
+      goalAreaDepth: 0,
+      goalAreaWidth: 0,
+      penaltySpotDistance: 7.32,
+      penaltyArcRadius: 0,
+      goalWidth: 3.66,
+      goalDepth: 1,
+      cornerArcRadius: 1,
+    },
+  }),
+  futsal,
+  rugbyUnion,
+];
+
+export const getPitchTemplate = (id: string): PitchTemplate =>
+  PITCH_TEMPLATES.find(template => template.id === id) ?? PITCH_TEMPLATES[0];
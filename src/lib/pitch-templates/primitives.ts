@@ -0,0 +1,23 @@
+import type { Point } from "../homography";
+import type { PitchLine } from "../pitch";
+
+export const line = (from: Point, to: Point, dashed = false): PitchLine => ({ type: "line", from, to, dashed });
+
+export const spot = (at: Point): PitchLine => ({ type: "spot", at });
+
+export const arc = (center: Point, radius: number, startAngle: number, endAngle: number): PitchLine =>
+  ({ type: "arc", center, radius, startAngle, endAngle });
+
+export const circle = (center: Point, radius: number): PitchLine => arc(center, radius, 0, 2 * Math.PI);
+
+// Axis-aligned rectangle from any two opposite corners
+export const rect = (a: Point, b: Point): PitchLine[] => {
+  const [x1, x2] = [Math.min(a.x, b.x), Math.max(a.x, b.x)];
+  const [y1, y2] = [Math.min(a.y, b.y), Math.max(a.y, b.y)];
+  return [
+    line({ x: x1, y: y1 }, { x: x2, y: y1 }),
+    line({ x: x2, y: y1 }, { x: x2, y: y2 }),
+    line({ x: x2, y: y2 }, { x: x1, y: y2 }),
+    line({ x: x1, y: y2 }, { x: x1, y: y1 }),
+  ];
+};
@@ -0,0 +1,117 @@
+import type { PitchLandmark } from "../landmarks";
+import type { PitchLine, PitchMarkings, PitchModel, PitchRegion, PitchTemplate } from "../pitch";
+import { line, spot } from "./primitives";
+
+// Length is the field of play between the try lines; the in-goal areas extend
+// behind them to negative x and beyond L.
+const getLandmarks = (pitch: PitchModel, m: PitchMarkings): PitchLandmark[] => {
+  const L = pitch.length;
+  const W = pitch.width;
+
+  const landmarks: PitchLandmark[] = [
+    { id: "halfway-top", name: "Halfway line / top touchline", x: L / 2, y: 0 },
+    { id: "halfway-bottom", name: "Halfway line / bottom touchline", x: L / 2, y: W },
+    { id: "center-spot", name: "Centre mark", x: L / 2, y: W / 2 },
+  ];
+
+  for (const [side, tryX, dir] of [
+    ["away", 0, 1],
+    ["home", L, -1],
+  ] as const) {
+    const x = (d: number) => tryX + dir * d;
+    landmarks.push(
+      { id: `corner-${side}-top`, name: `Try line / touchline (${side}, top)`, x: x(0), y: 0 },
+      { id: `corner-${side}-bottom`, name: `Try line / touchline (${side}, bottom)`, x: x(0), y: W },
+      { id: `dead-ball-${side}-top`, name: `Dead-ball line / touch-in-goal (${side}, top)`, x: x(-m.inGoalDepth), y: 0 },
+      { id: `dead-ball-${side}-bottom`, name: `Dead-ball line / touch-in-goal (${side}, bottom)`, x: x(-m.inGoalDepth), y: W },
+      { id: `${side}-22-top`, name: `22 m line / touchline (${side}, top)`, x: x(m.twentyTwoDistance), y: 0 },
+      { id: `${side}-22-bottom`, name: `22 m line / touchline (${side}, bottom)`, x: x(m.twentyTwoDistance), y: W },
+      { id: `${side}-22-15-top`, name: `22 m line / 15 m line (${side}, top)`, x: x(m.twentyTwoDistance), y: m.fifteenMetreLine },
+      { id: `${side}-22-15-bottom`, name: `22 m line / 15 m line (${side}, bottom)`, x: x(m.twentyTwoDistance), y: W - m.fifteenMetreLine },
+      { id: `${side}-10-top`, name: `10 m line / touchline (${side} half, top)`, x: L / 2 - dir * m.tenMetreDistance, y: 0 },
+      { id: `${side}-10-bottom`, name: `10 m line / touchline (${side} half, bottom)`, x: L / 2 - dir * m.tenMetreDistance, y: W },
+      { id: `${side}-post-top`, name: `Goal post (${side}, top)`, x: x(0), y: W / 2 - m.goalWidth / 2 },
+      { id: `${side}-post-bottom`, name: `Goal post (${side}, bottom)`, x: x(0), y: W / 2 + m.goalWidth / 2 },
+    );
+  }
+
+  return landmarks;
+};
+
+const getLines = (pitch: PitchModel, m: PitchMarkings, regions: PitchRegion[]): PitchLine[] => {
+  const L = pitch.length;
+  const W = pitch.width;
+  const lines: PitchLine[] = [];
+
+  const tryEnd = (tryX: number, dir: 1 | -1) => {
+    const deadBallX = tryX - dir * m.inGoalDepth;
+    lines.push(
+      line({ x: tryX, y: 0 }, { x: tryX, y: W }),
+      line({ x: deadBallX, y: 0 }, { x: deadBallX, y: W }),
+      line({ x: deadBallX, y: 0 }, { x: tryX, y: 0 }),
+      line({ x: deadBallX, y: W }, { x: tryX, y: W }),
+      line({ x: tryX + dir * m.twentyTwoDistance, y: 0 }, { x: tryX + dir * m.twentyTwoDistance, y: W }),
+      line({ x: tryX + dir * m.fiveMetreLine, y: 0 }, { x: tryX + dir * m.fiveMetreLine, y: W }, true),
+      spot({ x: tryX, y: W / 2 - m.goalWidth / 2 }),
+      spot({ x: tryX, y: W / 2 + m.goalWidth / 2 }),
+    );
+  };
+
+  if (regions.includes("away")) tryEnd(0, 1);
+  if (regions.includes("home")) tryEnd(L, -1);
+  if (regions.includes("center")) {
+    lines.push(
+      line({ x: L / 2, y: 0 }, { x: L / 2, y: W }),
+      spot({ x: L / 2, y: W / 2 }),
+      line({ x: L / 2 - m.tenMetreDistance, y: 0 }, { x: L / 2 - m.tenMetreDistance, y: W }, true),
+      line({ x: L / 2 + m.tenMetreDistance, y: 0 }, { x: L / 2 + m.tenMetreDistance, y: W }, true),
+      line({ x: 0, y: 0 }, { x: L, y: 0 }),
+      line({ x: 0, y: W }, { x: L, y: W }),
+    );
+    // 5 m and 15 m lines run parallel to touch along the whole field of play
+    for (const y of [m.fiveMetreLine, m.fifteenMetreLine, W - m.fifteenMetreLine, W - m.fiveMetreLine]) {
+      lines.push(line({ x: 0, y }, { x: L, y }, true));
+    }
+  }
+
+  return lines;
+};
+
+export const rugbyUnion: PitchTemplate = {
+  id: "rugby-union",
+  name: "Rugby Union",
+  length: 100,
+  width: 70,
+  lengthRange: { min: 94, max: 100 },
+  widthRange: { min: 68, max: 70 },
+  markings: {
+    inGoalDepth: 10,
+    twentyTwoDistance: 22,
+    tenMetreDistance: 10,
+    fiveMetreLine: 5,
+    fifteenMetreLine: 15,
+    goalWidth: 5.6,
+  },
+  presets: [
+    ...(["away", "home"] as const).map(side => ({
+      id: `${side}-22`,
+      title: side === "away" ? "Away 22" : "Home 22",
+      regions: [side],
+      landmarkIds: [
+        `corner-${side}-top`, `${side}-22-top`, `${side}-22-bottom`, `corner-${side}-bottom`,
+        `${side}-post-top`, `${side}-post-bottom`,
+      ],
+    })),
+    {
+      id: "halfway",
+      title: "Halfway",
+      regions: ["center"],
+      landmarkIds: [
+        "halfway-top", "halfway-bottom", "away-10-top", "away-10-bottom", "home-10-top", "home-10-bottom",
+      ],
+    },
+  ],
+  defaultPreset: "halfway",
+  getLandmarks,
+  getLines,
+};
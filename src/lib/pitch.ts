@@ -0,0 +1,66 @@
+import type { Point } from "./homography";
+import type { PitchLandmark } from "./landmarks";
+import { getPitchTemplate, PITCH_TEMPLATES } from "./pitch-templates";
+
+// Line markings in meters, keyed by name. Each template ships regulation values
+// which a pitch may override.
+export type PitchMarkings = Record<string, number>;
+
+export interface PitchModel {
+  template: string; // id of the PitchTemplate the pitch is drawn from
+  length: number;   // goal (try) line to goal (try) line, meters
+  width: number;    // touchline to touchline, meters
+  markings?: PitchMarkings;
+}
+
+// Parts of the pitch a calibration preset covers
+export type PitchRegion = "away" | "center" | "home";
+
+export const ALL_REGIONS: PitchRegion[] = ["away", "center", "home"];
+
+// Drawing primitives in field meters, projected by the overlay and the diagram
+export type PitchLine =
+  | { type: "line"; from: Point; to: Point; dashed?: boolean }
+  | { type: "arc"; center: Point; radius: number; startAngle: number; endAngle: number }
+  | { type: "spot"; at: Point };
+
+export interface CalibrationPreset {
+  id: string;
+  title: string;
+  regions: PitchRegion[];
+  landmarkIds: string[];   // reference points, in click order
+  instructions?: string[]; // defaults to "Click the <landmark name>"
+}
+
+export interface PitchTemplate {
+  id: string;
+  name: string;
+  length: number;
+  width: number;
+  lengthRange: { min: number; max: number };
+  widthRange: { min: number; max: number };
+  markings: PitchMarkings;
+  presets: CalibrationPreset[];
+  defaultPreset: string;
+  getLandmarks: (pitch: PitchModel, markings: PitchMarkings) => PitchLandmark[];
+  getLines: (pitch: PitchModel, markings: PitchMarkings, regions: PitchRegion[]) => PitchLine[];
+}
+
+export const createPitch = (template: PitchTemplate): PitchModel => ({
+  template: template.id,
+  length: template.length,
+  width: template.width,
+});
+
+export const DEFAULT_PITCH: PitchModel = createPitch(PITCH_TEMPLATES[0]);
+
+export const getPitchMarkings = (pitch: PitchModel): PitchMarkings => ({
+  ...getPitchTemplate(pitch.template).markings,
+  ...pitch.markings,
+});
+
+export const getPitchLines = (pitch: PitchModel, regions: PitchRegion[] = ALL_REGIONS): PitchLine[] =>
+  getPitchTemplate(pitch.template).getLines(pitch, getPitchMarkings(pitch), regions);
+
+export const getCalibrationPreset = (pitch: PitchModel, presetId: string): CalibrationPreset | undefined =>
+  getPitchTemplate(pitch.template).presets.find(preset => preset.id === presetId);
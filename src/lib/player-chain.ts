@@ -0,0 +1,147 @@
+import { Control, Group, Point as FabricPoint, Polygon, Polyline, Text, util, type Canvas, type FabricObject } from "fabric";
+import { clipSegmentToFront, projectToField, projectToImage, type CameraModel } from "./camera";
+import { dragFieldPoints, isFinitePoint, setGroupParts } from "./field-group";
+import type { Point } from "./homography";
+import { measureSegment } from "./measurement";
+
+// Players linked into a line (a back four, a pressing trio), kept as the
+// field points at their feet
+export interface ChainData {
+  points: Point[];
+  band: boolean; // shaded strip along the line
+  color: string;
+  fontSize: number; // video pixels
+}
+
+export type ChainObject = Group & { chain: ChainData };
+
+export const CHAIN_PROPERTIES = ["chain"];
+
+const NODE_RADIUS = 0.6; // meters
+const NODE_SEGMENTS = 24;
+const BAND_WIDTH = 3; // meters
+
+export const isChain = (object: FabricObject): object is ChainObject =>
+  object instanceof Group && !!(object as FabricObject & { chain?: ChainData }).chain;
+
+// Strip of the given width around the line, mitred at the players
+const getBand = (points: Point[], width: number): Point[] => {
+  const normals = points.slice(1).map((p, i) => {
+    const length = Math.hypot(p.x - points[i].x, p.y - points[i].y) || 1;
+    return { x: -(p.y - points[i].y) / length, y: (p.x - points[i].x) / length };
+  });
+  const offsets = points.map((_, i) => {
+    const a = normals[Math.max(0, i - 1)];
+    const b = normals[Math.min(normals.length - 1, i)];
+    const length = Math.hypot(a.x + b.x, a.y + b.y);
+    if (length < 1e-6) return { x: a.x * (width / 2), y: a.y * (width / 2) };
+    const miter = { x: (a.x + b.x) / length, y: (a.y + b.y) / length };
+    // Sharp turns would send the mitre far out, so it's capped
+    const scale = Math.min(2, 1 / (miter.x * a.x + miter.y * a.y)) * (width / 2);
+    return { x: miter.x * scale, y: miter.y * scale };
+  });
+  const side = (sign: number) => points.map((p, i) => ({
+    x: p.x + sign * offsets[i].x,
+    y: p.y + sign * offsets[i].y,
+  }));
+  return [...side(1), ...side(-1).reverse()];
+};
+
+const buildParts = (data: ChainData, camera: CameraModel): FabricObject[] | null => {
+  const { points, band, color, fontSize } = data;
+  if (!points.every(p => clipSegmentToFront(camera, p, p))) return null;
+  const image = points.map(p => projectToImage(camera, p));
+  if (!image.every(isFinitePoint)) return null;
+
+  const strokeWidth = Math.max(1.5, fontSize / 5);
+  const parts: FabricObject[] = [];
+  if (band && points.length > 1) {
+    const strip = getBand(points, BAND_WIDTH);
+    if (strip.every(p => clipSegmentToFront(camera, p, p))) {
+      parts.push(new Polygon(strip.map(p => projectToImage(camera, p)), { fill: `${color}26`, strokeWidth: 0 }));
+    }
+  }
+  parts.push(new Polyline(image, { fill: "transparent", stroke: color, strokeWidth }));
+  // Rings at the players' feet
+  for (const p of points) {
+    const ring = Array.from({ length: NODE_SEGMENTS }, (_, i) => {
+      const angle = (i / NODE_SEGMENTS) * 2 * Math.PI;
+      return projectToImage(camera, { x: p.x + NODE_RADIUS * Math.cos(angle), y: p.y + NODE_RADIUS * Math.sin(angle) });
+    });
+    parts.push(new Polygon(ring, { fill: color, stroke: "#FFFFFF", strokeWidth: strokeWidth / 2 }));
+  }
+  // Spacing between neighbours
+  for (let i = 1; i < points.length; i++) {
+    const { length } = measureSegment(points[i - 1], points[i]);
+    if (length === 0) continue;
+    parts.push(new Text(`${length.toFixed(1)} m`, {
+      left: (image[i - 1].x + image[i].x) / 2,
+      top: (image[i - 1].y + image[i].y) / 2 - fontSize,
+      originX: "center",
+      originY: "center",
+      fontSize,
+      fontFamily: "Arial",
+      fill: "#FFFFFF",
+      backgroundColor: color,
+    }));
+  }
+  return parts;
+};
+
+export const renderChain = (object: ChainObject, camera: CameraModel) => {
+  setGroupParts(object, buildParts(object.chain, camera));
+};
+
+export const createChain = (points: Point[], options: Omit<ChainData, "points">, camera: CameraModel): ChainObject => {
+  const object = new Group([], { objectCaching: false }) as ChainObject;
+  object.chain = { ...options, points };
+  renderChain(object, camera);
+  return object;
+};
+
+export const setChainPoints = (object: ChainObject, points: Point[], camera: CameraModel) => {
+  object.chain = { ...object.chain, points };
+  renderChain(object, camera);
+};
+
+// After the chain was dragged as a whole
+export const moveChain = (object: ChainObject, camera: CameraModel) => {
+  // Polygons are polylines too, but only the line is open
+  const line = object.getObjects().find(o => o instanceof Polyline && !(o instanceof Polygon));
+  if (!(line instanceof Polyline)) return;
+  setChainPoints(object, dragFieldPoints(line, object.chain.points, camera), camera);
+};
+
+// One handle per player, dragged along the ground
+export const attachChainControls = (object: ChainObject, getCamera: () => CameraModel | null | undefined) => {
+  object.controls = Object.fromEntries(object.chain.points.map((_, index) => [
+    `node${index}`,
+    new Control({
+      actionName: "modifyChain",
+      cursorStyle: "pointer",
+      positionHandler: (_dim, _matrix, target: ChainObject) => {
+        const camera = getCamera();
+        const point = target.chain.points[index];
+        if (!camera || !point) return new FabricPoint(NaN, NaN);
+        const { x, y } = projectToImage(camera, point);
+        return util.transformPoint(new FabricPoint(x, y), target.getViewportTransform());
+      },
+      actionHandler: (_event, { target }, x, y) => {
+        const camera = getCamera();
+        if (!camera || !isChain(target)) return false;
+        const to = projectToField(camera, { x, y });
+        if (!isFinitePoint(to)) return false;
+        setChainPoints(target, target.chain.points.map((p, i) => (i === index ? to : p)), camera);
+        return true;
+      },
+    }),
+  ]));
+  object.set({ hasBorders: false, lockRotation: true, lockScalingX: true, lockScalingY: true });
+};
+
+export const reprojectChains = (canvas: Canvas, camera: CameraModel) => {
+  for (const object of canvas.getObjects()) {
+    if (isChain(object)) renderChain(object, camera);
+  }
+  canvas.requestRenderAll();
+};
@@ -0,0 +1,118 @@
+import { Group, Polygon, Text, type Canvas, type FabricObject } from "fabric";
+import { clipSegmentToFront, projectToField, projectToImage, type CameraModel } from "./camera";
+import { isFinitePoint, setGroupParts } from "./field-group";
+import type { Point } from "./homography";
+
+export interface SpotlightOptions {
+  beam: boolean;
+  label: string; // name or number, empty for none
+}
+
+// Highlight on a player, kept as the field point at their feet
+export interface SpotlightData extends SpotlightOptions {
+  at: Point;
+  color: string;
+}
+
+export type SpotlightObject = Group & { spotlight: SpotlightData };
+
+export const SPOTLIGHT_PROPERTIES = ["spotlight"];
+
+const RING_RADIUS = 1.2; // meters
+const RING_SEGMENTS = 48;
+const PLAYER_HEIGHT = 1.9; // meters, for the beam
+
+export const isSpotlight = (object: FabricObject): object is SpotlightObject =>
+  object instanceof Group && !!(object as FabricObject & { spotlight?: SpotlightData }).spotlight;
+
+// Ring, beam and label in video pixels, null when the feet are off the pitch
+// plane's visible side
+const buildParts = ({ at, color, beam, label }: SpotlightData, camera: CameraModel): FabricObject[] | null => {
+  if (!clipSegmentToFront(camera, at, at)) return null;
+  const ring = Array.from({ length: RING_SEGMENTS }, (_, i) => {
+    const angle = (i / RING_SEGMENTS) * 2 * Math.PI;
+    return projectToImage(camera, { x: at.x + RING_RADIUS * Math.cos(angle), y: at.y + RING_RADIUS * Math.sin(angle) });
+  });
+  const feet = projectToImage(camera, at);
+  if (!isFinitePoint(feet) || !ring.every(isFinitePoint)) return null;
+
+  // The calibration knows nothing about height, but players stand upright in
+  // the image, so the ring's width in pixels per meter sizes the beam too
+  const left = Math.min(...ring.map(p => p.x));
+  const right = Math.max(...ring.map(p => p.x));
+  const pixelsPerMeter = (right - left) / (2 * RING_RADIUS);
+  const top = feet.y - PLAYER_HEIGHT * pixelsPerMeter;
+
+  const parts: FabricObject[] = [
+    new Polygon(ring, { fill: `${color}33`, stroke: color, strokeWidth: Math.max(1.5, pixelsPerMeter * 0.15) }),
+  ];
+  if (beam) {
+    const inset = (right - left) * 0.2;
+    parts.push(new Polygon(
+      [{ x: left, y: feet.y }, { x: left + inset, y: top }, { x: right - inset, y: top }, { x: right, y: feet.y }],
+      { fill: `${color}26`, strokeWidth: 0 }
+    ));
+  }
+  if (label) {
+    const fontSize = Math.min(32, Math.max(12, pixelsPerMeter * 0.6));
+    const text = new Text(label, {
+      fontSize,
+      fontFamily: "Arial",
+      fontWeight: "bold",
+      fill: "#FFFFFF",
+      backgroundColor: color,
+      originX: "center",
+      originY: "bottom",
+      left: feet.x,
+      top: (beam ? top : feet.y - RING_RADIUS * pixelsPerMeter) - fontSize * 0.25,
+    });
+    parts.push(text);
+  }
+  return parts;
+};
+
+// Rebuilds the spotlight for the current calibration
+export const renderSpotlight = (object: SpotlightObject, camera: CameraModel) => {
+  setGroupParts(object, buildParts(object.spotlight, camera));
+};
+
+// Null when the click isn't on the visible ground
+export const createSpotlight = (at: Point, options: SpotlightOptions, color: string, camera: CameraModel) => {
+  const feet = projectToField(camera, at);
+  if (!isFinitePoint(feet) || !clipSegmentToFront(camera, feet, feet)) return null;
+  const object = new Group([], {
+    hasControls: false,
+    objectCaching: false,
+  }) as SpotlightObject;
+  object.spotlight = { ...options, at: feet, color };
+  renderSpotlight(object, camera);
+  return object;
+};
+
+// After the spotlight was dragged onto another player: the group moved, the
+// field point didn't
+export const moveSpotlight = (object: SpotlightObject, camera: CameraModel) => {
+  const { spotlight } = object;
+  const ring = object.getObjects()[0];
+  if (!ring) return;
+  const moved = ring.getCenterPoint();
+  const ringPoints = (ring as Polygon).points;
+  const left = Math.min(...ringPoints.map(p => p.x));
+  const right = Math.max(...ringPoints.map(p => p.x));
+  const topY = Math.min(...ringPoints.map(p => p.y));
+  const bottomY = Math.max(...ringPoints.map(p => p.y));
+  const feet = projectToImage(camera, spotlight.at);
+  const target = projectToField(camera, {
+    x: feet.x + moved.x - (left + right) / 2,
+    y: feet.y + moved.y - (topY + bottomY) / 2,
+  });
+  if (isFinitePoint(target)) object.spotlight = { ...spotlight, at: target };
+  renderSpotlight(object, camera);
+};
+
+export const reprojectSpotlights = (canvas: Canvas, camera: CameraModel) => {
+  for (const object of canvas.getObjects()) {
+    if (isSpotlight(object)) renderSpotlight(object, camera);
+  }
+  canvas.requestRenderAll();
+};
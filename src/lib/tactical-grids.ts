@@ -0,0 +1,71 @@
+import type { Point } from "./homography";
+import { getPitchMarkings, type PitchLine, type PitchModel } from "./pitch";
+import { line } from "./pitch-templates/primitives";
+
+export type TacticalGrid = "thirds" | "lanes" | "half-spaces" | "zones";
+
+export const TACTICAL_GRIDS: { id: TacticalGrid; name: string }[] = [
+  { id: "thirds", name: "Thirds" },
+  { id: "lanes", name: "Five lanes" },
+  { id: "half-spaces", name: "Half-spaces" },
+  { id: "zones", name: "18 zones" },
+];
+
+// Area of a grid in field meters, shaded and/or numbered
+export interface GridZone {
+  corners: Point[];
+  shaded?: boolean;
+  label?: string;
+}
+
+export interface GridLayer {
+  lines: PitchLine[];
+  zones: GridZone[];
+}
+
+const zone = (x1: number, y1: number, x2: number, y2: number, extra?: Omit<GridZone, "corners">): GridZone => ({
+  corners: [{ x: x1, y: y1 }, { x: x2, y: y1 }, { x: x2, y: y2 }, { x: x1, y: y2 }],
+  ...extra,
+});
+
+// Lane boundaries across the width: wings end in line with the penalty box and
+// half-spaces with the goal area; pitches without those markings split evenly
+const getLaneEdges = (pitch: PitchModel): number[] => {
+  const m = getPitchMarkings(pitch);
+  const W = pitch.width;
+  const outer = m.penaltyAreaWidth / 2;
+  const inner = m.goalAreaWidth / 2;
+  if (inner > 0 && outer > inner) return [W / 2 - outer, W / 2 - inner, W / 2 + inner, W / 2 + outer];
+  return [1, 2, 3, 4].map(i => (W * i) / 5);
+};
+
+export const getTacticalGrid = (grid: TacticalGrid, pitch: PitchModel): GridLayer => {
+  const L = pitch.length;
+  const W = pitch.width;
+  const across = (x: number) => line({ x, y: 0 }, { x, y: W }, true);
+  const along = (y: number) => line({ x: 0, y }, { x: L, y }, true);
+
+  switch (grid) {
+    case "thirds":
+      return { lines: [across(L / 3), across((2 * L) / 3)], zones: [] };
+    case "lanes":
+      return { lines: getLaneEdges(pitch).map(along), zones: [] };
+    case "half-spaces": {
+      const [a, b, c, d] = getLaneEdges(pitch);
+      return { lines: [], zones: [zone(0, a, L, b, { shaded: true }), zone(0, c, L, d, { shaded: true })] };
+    }
+    case "zones": {
+      // Six bands up the pitch, three across; numbered from the away goal, top to bottom
+      const zones: GridZone[] = [];
+      for (let col = 0; col < 6; col++) {
+        for (let row = 0; row < 3; row++) {
+          zones.push(zone((L * col) / 6, (W * row) / 3, (L * (col + 1)) / 6, (W * (row + 1)) / 3, { label: `${col * 3 + row + 1}` }));
+        }
+      }
+      return {
+        lines: [...[1, 2, 3, 4, 5].map(i => across((L * i) / 6)), along(W / 3), along((2 * W) / 3)],
+        zones,
+      };
+    }
+  }
+};
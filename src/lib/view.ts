@@ -0,0 +1,53 @@
+import type { Point } from "./homography";
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+// Native size of the video and the size of the element it is displayed in
+export interface VideoLayout {
+  video: FrameSize;
+  display: FrameSize;
+}
+
+// Calibration points, homographies and annotations all live in native video
+// pixels; this is the only mapping onto the displayed element
+export interface ViewTransform {
+  scaleX: number;
+  scaleY: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export const IDENTITY_VIEW: ViewTransform = { scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0 };
+
+// Part of the element the frame is actually shown in: the video element
+// letterboxes (object-fit: contain) any source that isn't its own aspect
+export const getContentRect = ({ video, display }: VideoLayout) => {
+  const scale = Math.min(display.width / video.width, display.height / video.height);
+  const width = video.width * scale;
+  const height = video.height * scale;
+  return { x: (display.width - width) / 2, y: (display.height - height) / 2, width, height };
+};
+
+export const getViewTransform = (layout: VideoLayout | null): ViewTransform => {
+  if (!layout || !layout.video.width || !layout.video.height) return IDENTITY_VIEW;
+  const rect = getContentRect(layout);
+  return {
+    scaleX: rect.width / layout.video.width,
+    scaleY: rect.height / layout.video.height,
+    offsetX: rect.x,
+    offsetY: rect.y,
+  };
+};
+
+export const toView = (p: Point, view: ViewTransform): Point => ({
+  x: p.x * view.scaleX + view.offsetX,
+  y: p.y * view.scaleY + view.offsetY,
+});
+
+export const fromView = (p: Point, view: ViewTransform): Point => ({
+  x: (p.x - view.offsetX) / view.scaleX,
+  y: (p.y - view.offsetY) / view.scaleY,
+});
@@ -1,50 +1,251 @@
 // pages/Index.tsx
-import { useState, useRef, useEffect } from "react";
-import { VideoPlayer } from "@/components/VideoPlayer";
-import { DrawingCanvas, DrawingCanvasRef } from "@/components/DrawingCanvas";
-import { DrawingToolbar } from "@/components/DrawingToolbar";
+import { useState, useRef, useEffect, useMemo, useCallback } from "react";
+import { VideoPlayer, type VideoPlayerRef } from "@/components/VideoPlayer";
+import { DrawingCanvas, DrawingCanvasRef, type SelectedAnnotation } from "@/components/DrawingCanvas";
+import { DrawingToolbar, type DrawingTool } from "@/components/DrawingToolbar";
 import { Timeline, type Clip } from "@/components/Timeline";
 import { KeyboardShortcuts } from "@/components/KeyboardShortcuts";
-import { FieldCalibration, type CalibrationMode, type CalibrationPoint } from "@/components/FieldCalibration";
+import { SelectedAnnotationPanel } from "@/components/SelectedAnnotationPanel";
+import { FieldCalibration } from "@/components/FieldCalibration";
 import { FieldOverlay } from "@/components/FieldOverlay";
 import { CalibrationSidebar } from "@/components/CalibrationSidebar";
-import { Homography, getFieldReferencePoints } from "@/lib/homography";
+import { CalibrationPointsOverlay } from "@/components/CalibrationPointsOverlay";
+import { Homography, getPoorFitPixels, type Point } from "@/lib/homography";
+import type { CalibrationKeyframe, CalibrationMode, CalibrationPoint } from "@/lib/calibration";
+import { cameraFromFit, fitWithDistortion, interpolateCamera, type CameraModel } from "@/lib/camera";
+import type { ArrowOptions } from "@/lib/arrows";
+import type { SpotlightOptions } from "@/lib/spotlight";
+import { findKeyframeSpan, upsertKeyframe } from "@/lib/keyframes";
+import {
+  deleteCalibrationPreset,
+  deleteVideoCalibration,
+  fingerprintFile,
+  loadCalibrationPresets,
+  loadVideoCalibration,
+  rescaleKeyframes,
+  saveCalibrationPreset,
+  saveVideoCalibration,
+  type SavedCalibration,
+} from "@/lib/calibration-store";
+import { LANDMARK_MODE, MIN_LANDMARKS, getFieldReferencePoints, getPitchLandmark, getPitchLandmarks, getRequiredPoints } from "@/lib/landmarks";
+import { matchLandmarks, snapToCandidate, type LineDetection } from "@/lib/line-detection";
+import { detectPitchLines } from "@/lib/line-detection-client";
+import { DEFAULT_PITCH, createPitch, type PitchModel } from "@/lib/pitch";
+import { getPitchTemplate } from "@/lib/pitch-templates";
+import { TACTICAL_GRIDS, type TacticalGrid } from "@/lib/tactical-grids";
+import { getViewTransform, type FrameSize, type VideoLayout } from "@/lib/view";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Upload, FileVideo, Info, Target } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Upload, FileVideo, Info, Target, Crosshair, Grid3x3, RefreshCw } from "lucide-react";
 import { toast } from "sonner";
 import { SidebarProvider, SidebarTrigger, SidebarInset } from "@/components/ui/sidebar";
 
+interface MatchInfo {
+  date: string;
+  homeTeam: string;
+  awayTeam: string;
+  competition: string;
+  pitch: PitchModel;
+}
+
+type CalibrationSetup = Omit<CalibrationKeyframe, "id" | "time">;
+
+interface KeyframeFit {
+  time: number;
+  mode: CalibrationMode;
+  camera: CameraModel;
+}
+
+// Least-squares (or RANSAC) fit of placed points; preset modes pair clicks with
+// reference points by order, free landmarks by id
+const fitCalibration = (
+  { mode, points, robust, straightLines, distortionCoefficients }: CalibrationSetup,
+  pitch: PitchModel,
+  frame: FrameSize
+) => {
+  if (points.length < 4) return null;
+  const fieldPoints = mode === LANDMARK_MODE
+    ? points.map(p => getPitchLandmark(p.landmarkId, pitch)!)
+    : getFieldReferencePoints(mode, pitch).slice(0, points.length);
+  const imagePoints = points.map(p => ({ x: p.x, y: p.y }));
+  // Four points are always fit exactly, there is nothing to reject
+  const rejectOutliers = robust && points.length > 4;
+  const threshold = getPoorFitPixels(frame);
+  if (distortionCoefficients > 0) {
+    return fitWithDistortion(fieldPoints, imagePoints, straightLines, {
+      robust: rejectOutliers,
+      coefficients: distortionCoefficients as 1 | 2,
+      frame,
+      threshold,
+    });
+  }
+  return rejectOutliers
+    ? Homography.fitRobust(fieldPoints, imagePoints, { threshold })
+    : Homography.fit(fieldPoints, imagePoints);
+};
+
+const DEFAULT_FRAME: FrameSize = { width: 800, height: 450 };
+
 const Index = () => {
   const [videoSrc, setVideoSrc] = useState<string>("");
   const [videoDuration, setVideoDuration] = useState(0);
   const [currentTime, setCurrentTime] = useState(0);
-  const [activeTool, setActiveTool] = useState<"select" | "draw" | "rectangle" | "circle" | "line" | "triangle" | "text">("select");
+  const [activeTool, setActiveTool] = useState<DrawingTool>("select");
   const [activeColor, setActiveColor] = useState("#0EA5E9");
   const [brushSize, setBrushSize] = useState(3);
+  const [anchorToPitch, setAnchorToPitch] = useState(true);
+  const [arrowOptions, setArrowOptions] = useState<ArrowOptions>({
+    style: "pass",
+    head: "end",
+    curved: false,
+    perspective: true,
+  });
+  const [spotlightOptions, setSpotlightOptions] = useState<SpotlightOptions>({ beam: true, label: "" });
+  const [measureAngles, setMeasureAngles] = useState(false);
+  const [linkBand, setLinkBand] = useState(false);
+  const [offsideAttacker, setOffsideAttacker] = useState(false);
   const [clips, setClips] = useState<Clip[]>([]);
   const [selectedClip, setSelectedClip] = useState<Clip | undefined>(undefined);
-  const [canvasSize, setCanvasSize] = useState({ width: 800, height: 450 });
+  const [selectedAnnotation, setSelectedAnnotation] = useState<SelectedAnnotation | null>(null);
+  const [videoLayout, setVideoLayout] = useState<VideoLayout | null>(null);
+
+  // Match Info
+  const [matchInfo, setMatchInfo] = useState<MatchInfo>({
+    date: "",
+    homeTeam: "",
+    awayTeam: "",
+    competition: "",
+    pitch: DEFAULT_PITCH,
+  });
+  const pitchTemplate = getPitchTemplate(matchInfo.pitch.template);
+  // A template picked while recalibrating only replaces the match's pitch (and
+  // with it the keyframes placed against the old one) once that calibration is
+  // completed, so cancelling keeps everything as it was
+  const [pendingPitch, setPendingPitch] = useState<PitchModel | null>(null);
+  const calibrationPitch = pendingPitch ?? matchInfo.pitch;
+  // Pitch dimensions as typed, until committed
+  const [pitchDimensionInput, setPitchDimensionInput] = useState<Partial<Record<"length" | "width", string>>>({});
 
   // Calibration state
   const [isCalibrated, setIsCalibrated] = useState(false);
-  const [calibrationMode, setCalibrationMode] = useState<CalibrationMode>("center-circle");
+  const [calibrationMode, setCalibrationMode] = useState<CalibrationMode>(
+    getPitchTemplate(DEFAULT_PITCH.template).defaultPreset
+  );
   const [calibrationPoints, setCalibrationPoints] = useState<CalibrationPoint[]>([]);
   const [showFieldOverlay, setShowFieldOverlay] = useState(true);
-  const [homography, setHomography] = useState<number[] | null>(null);
-  const [inverseHomography, setInverseHomography] = useState<number[] | null>(null);
+  const [tacticalGrids, setTacticalGrids] = useState<TacticalGrid[]>([]);
+  const [calibrationKeyframes, setCalibrationKeyframes] = useState<CalibrationKeyframe[]>([]);
+  const [recalibratingKeyframeId, setRecalibratingKeyframeId] = useState<string | null>(null);
+  const [robustCalibration, setRobustCalibration] = useState(true);
+  const [replacingPointIndex, setReplacingPointIndex] = useState<number | null>(null);
+  const [activeLandmarkId, setActiveLandmarkId] = useState<string | null>(null);
+  const [lineDetection, setLineDetection] = useState<LineDetection | null>(null);
+  const [isDetectingLines, setIsDetectingLines] = useState(false);
+  const [snapToLines, setSnapToLines] = useState(true);
+  const [distortionCoefficients, setDistortionCoefficients] = useState<0 | 1 | 2>(0);
+  const [isDraggingPoint, setIsDraggingPoint] = useState(false);
+  const [straightLines, setStraightLines] = useState<Point[][]>([]);
+  const [activeLineIndex, setActiveLineIndex] = useState<number | null>(null);
+  const [calibrationPresets, setCalibrationPresets] = useState<SavedCalibration[]>(loadCalibrationPresets);
+  const [videoFingerprint, setVideoFingerprint] = useState<string | null>(null);
+  const [videoCalibration, setVideoCalibration] = useState<SavedCalibration | null>(null);
+
+  // Everything calibrated or drawn is kept in native video pixels; only the
+  // view transform changes when the player is resized
+  const videoFrame = videoLayout?.video ?? DEFAULT_FRAME;
+  const displaySize = videoLayout?.display ?? DEFAULT_FRAME;
+  const view = useMemo(() => getViewTransform(videoLayout), [videoLayout]);
+
+  // Recomputed from the fourth point on so the overlay can preview the
+  // projection while calibrating. The lens fit is a search too slow to run on
+  // every pointer move, so a dragged point previews the plain homography and
+  // the distortion is fit once it is dropped.
+  const calibrationFit = useMemo(
+    () => fitCalibration(
+      {
+        mode: calibrationMode,
+        points: calibrationPoints,
+        robust: robustCalibration,
+        straightLines,
+        distortionCoefficients: isDraggingPoint ? 0 : distortionCoefficients,
+      },
+      calibrationPitch,
+      videoFrame
+    ),
+    [calibrationMode, calibrationPoints, robustCalibration, straightLines, distortionCoefficients, isDraggingPoint, calibrationPitch, videoFrame]
+  );
+
+  // Keyframes are refit from their points, so editing the pitch dimensions
+  // after calibration moves the applied homographies along. Fits are cached per
+  // keyframe, so only added or edited keyframes are refit otherwise.
+  const keyframeFitCacheRef = useRef<{ pitch: PitchModel; frame: FrameSize; fits: WeakMap<CalibrationKeyframe, KeyframeFit | null> }>();
+  const keyframeFits = useMemo(() => {
+    const cached = keyframeFitCacheRef.current;
+    const fits = cached && cached.pitch === matchInfo.pitch &&
+      cached.frame.width === videoFrame.width && cached.frame.height === videoFrame.height
+      ? cached.fits
+      : new WeakMap<CalibrationKeyframe, KeyframeFit | null>();
+    keyframeFitCacheRef.current = { pitch: matchInfo.pitch, frame: videoFrame, fits };
+
+    return calibrationKeyframes.flatMap(keyframe => {
+      if (!fits.has(keyframe)) {
+        const fit = fitCalibration(keyframe, matchInfo.pitch, videoFrame);
+        fits.set(keyframe, fit && { time: keyframe.time, mode: keyframe.mode, camera: cameraFromFit(fit) });
+      }
+      const fit = fits.get(keyframe);
+      return fit ? [fit] : [];
+    });
+  }, [calibrationKeyframes, matchInfo.pitch, videoFrame]);
+
+  // Calibration valid at the current video time, blended between the
+  // surrounding keyframes while a panning camera moves. Memoised on the span
+  // rather than the time, so the camera keeps its identity (and nothing is
+  // re-projected) while the playhead stays on or beyond a single keyframe.
+  const span = findKeyframeSpan(keyframeFits, currentTime);
+  const spanBefore = span?.before;
+  const spanAfter = span?.after;
+  const spanT = span?.t ?? 0;
+  const activeCalibration = useMemo(() => {
+    if (!spanBefore || !spanAfter) return null;
+    const camera = interpolateCamera(spanBefore.camera, spanAfter.camera, spanT);
+    return camera ? { mode: spanBefore.mode, camera } : null;
+  }, [spanBefore, spanAfter, spanT]);
+  const camera = activeCalibration?.camera ?? null;
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const canvasRef = useRef<DrawingCanvasRef>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
+  const videoPlayerRef = useRef<VideoPlayerRef>(null);
+  const uploadIdRef = useRef(0);
+
+  // Calibrations follow the video: every keyframe change is stored under the
+  // file's fingerprint so reopening the same recording restores them, and
+  // removing the last one forgets it
+  useEffect(() => {
+    if (!videoFingerprint || !videoLayout) return;
+    if (calibrationKeyframes.length === 0) {
+      deleteVideoCalibration(videoFingerprint);
+      setVideoCalibration(null);
+      return;
+    }
+    const calibration = {
+      name: "This video",
+      pitch: matchInfo.pitch,
+      frame: videoFrame,
+      keyframes: calibrationKeyframes,
+    };
+    if (saveVideoCalibration(videoFingerprint, calibration)) {
+      setVideoCalibration({ ...calibration, id: videoFingerprint, savedAt: Date.now() });
+    }
+  }, [videoFingerprint, videoLayout, calibrationKeyframes, matchInfo.pitch, videoFrame]);
 
-  // Match Info
-  const [matchInfo, setMatchInfo] = useState({
-    date: "",
-    homeTeam: "",
-    awayTeam: "",
-    competition: "",
-  });
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -57,13 +258,30 @@ const Index = () => {
 
     const url = URL.createObjectURL(file);
     setVideoSrc(url);
-    setMatchInfo({
+    // The pitch carries over: consecutive videos are usually from the same ground
+    setMatchInfo(prev => ({
       date: new Date().toLocaleDateString(),
       homeTeam: "",
       awayTeam: "",
       competition: "",
-    });
+      pitch: prev.pitch,
+    }));
     resetState();
+
+    const uploadId = ++uploadIdRef.current;
+    fingerprintFile(file)
+      .then(fingerprint => {
+        // Another video may have been opened while hashing
+        if (uploadId !== uploadIdRef.current) return;
+        setVideoFingerprint(fingerprint);
+        const saved = loadVideoCalibration(fingerprint);
+        setVideoCalibration(saved);
+        if (saved) {
+          applySavedCalibration(saved, false);
+          toast.success("Restored the saved calibration for this video");
+        }
+      })
+      .catch(() => toast.error("Could not read the video file to look up saved calibrations"));
   };
 
   const resetState = () => {
@@ -72,30 +290,37 @@ const Index = () => {
     setClips([]);
     setSelectedClip(undefined);
     setIsCalibrated(false);
+    setCalibrationKeyframes([]);
+    setPendingPitch(null);
+    setRecalibratingKeyframeId(null);
     setCalibrationPoints([]);
-    setHomography(null);
-    setInverseHomography(null);
+    setReplacingPointIndex(null);
+    setActiveLandmarkId(null);
+    setLineDetection(null);
+    setStraightLines([]);
+    setActiveLineIndex(null);
+    setVideoFingerprint(null);
+    setVideoCalibration(null);
   };
 
-  // Sync canvas size with video
-  useEffect(() => {
-    const updateSize = () => {
-      if (videoRef.current) {
-        setCanvasSize({
-          width: videoRef.current.clientWidth,
-          height: videoRef.current.clientHeight,
-        });
-      }
-    };
-    window.addEventListener("resize", updateSize);
-    if (videoSrc) updateSize();
-    return () => window.removeEventListener("resize", updateSize);
-  }, [videoSrc]);
+  // Keeps the frame size object stable so resizing the player doesn't refit
+  // every calibration
+  const handleVideoLayoutChange = useCallback((layout: VideoLayout) => {
+    setVideoLayout(prev =>
+      prev && prev.video.width === layout.video.width && prev.video.height === layout.video.height
+        ? { ...layout, video: prev.video }
+        : layout
+    );
+  }, []);
 
   const handleVideoLoadedData = (duration: number) => {
     setVideoDuration(duration);
   };
 
+  // Drawings are timed within the selected clip
+  const clipTime = selectedClip ? currentTime - selectedClip.startTime : null;
+  const clipDuration = selectedClip ? selectedClip.endTime - selectedClip.startTime : 0;
+
   const handleTimeUpdate = (time: number, duration: number) => {
     setCurrentTime(time);
   };
@@ -113,18 +338,13 @@ const Index = () => {
 
   const handleClipSelect = (clip: Clip) => {
     setSelectedClip(clip);
+    setSelectedAnnotation(null);
     if (!canvasRef.current) return;
 
     canvasRef.current.clearCanvas();
 
     if (clip.annotations) {
-      try {
-        const json = JSON.parse(clip.annotations);
-        const fabricCanvas = (canvasRef.current as any).fabricCanvas;
-        fabricCanvas.loadFromJSON(json, () => fabricCanvas.renderAll());
-      } catch (e) {
-        toast.error("Failed to load drawings");
-      }
+      canvasRef.current.loadAnnotations(clip.annotations).catch(() => toast.error("Failed to load drawings"));
     }
   };
 
@@ -154,7 +374,65 @@ const Index = () => {
   const handleRedo = () => canvasRef.current?.redo();
 
   // Calibration handlers
-  const handleCalibrationPointClick = (x: number, y: number) => {
+  // Applied on blur or Enter, clamped to the template's range: every change
+  // refits the calibration and moves the anchored drawings
+  const commitPitchDimension = (key: "length" | "width") => {
+    const meters = parseFloat(pitchDimensionInput[key] ?? "");
+    setPitchDimensionInput(({ [key]: _, ...rest }) => rest);
+    if (!isFinite(meters)) return;
+    const range = key === "length" ? pitchTemplate.lengthRange : pitchTemplate.widthRange;
+    const clamped = Math.min(range.max, Math.max(range.min, meters));
+    setMatchInfo(prev => ({ ...prev, pitch: { ...prev.pitch, [key]: clamped } }));
+  };
+
+  // Points placed against the old template's landmarks start over. Existing
+  // keyframes stay in effect until the new calibration is completed.
+  const handlePitchTemplateChange = (templateId: string) => {
+    const template = getPitchTemplate(templateId);
+    const pitch = createPitch(template);
+    if (calibrationKeyframes.length > 0) {
+      setPendingPitch(pitch.template === matchInfo.pitch.template ? null : pitch);
+    } else {
+      setMatchInfo(prev => ({ ...prev, pitch }));
+    }
+    handleCalibrationModeChange(template.defaultPreset);
+  };
+
+  const handleCalibrationPointClick = (clickX: number, clickY: number) => {
+    const { x, y } = snapToLines && lineDetection
+      ? snapToCandidate({ x: clickX, y: clickY }, lineDetection.candidates)
+      : { x: clickX, y: clickY };
+
+    if (activeLineIndex !== null) {
+      setStraightLines(prev => prev.map((line, i) => (i === activeLineIndex ? [...line, { x, y }] : line)));
+      return;
+    }
+
+    if (replacingPointIndex !== null) {
+      setCalibrationPoints(prev =>
+        prev.map((p, i) => (i === replacingPointIndex ? { ...p, x, y } : p))
+      );
+      setReplacingPointIndex(null);
+      return;
+    }
+
+    if (calibrationMode === LANDMARK_MODE) {
+      const landmark = activeLandmarkId ? getPitchLandmark(activeLandmarkId, calibrationPitch) : undefined;
+      if (!landmark) {
+        toast("Pick a landmark on the pitch diagram first");
+        return;
+      }
+      // Clicking an already placed landmark again moves it instead of duplicating it
+      const landmarkPoint: CalibrationPoint = { x, y, label: landmark.name, landmarkId: landmark.id };
+      setCalibrationPoints(prev =>
+        prev.some(p => p.landmarkId === landmark.id)
+          ? prev.map(p => (p.landmarkId === landmark.id ? landmarkPoint : p))
+          : [...prev, landmarkPoint]
+      );
+      setActiveLandmarkId(null);
+      return;
+    }
+
     const newPoint: CalibrationPoint = {
       x,
       y,
@@ -163,88 +441,247 @@ const Index = () => {
     setCalibrationPoints(prev => [...prev, newPoint]);
   };
 
+  const handleCalibrationPointMove = useCallback((index: number, x: number, y: number) => {
+    setCalibrationPoints(prev => prev.map((p, i) => (i === index ? { ...p, x, y } : p)));
+  }, []);
+
+  const handleDetectLines = async () => {
+    const frame = videoPlayerRef.current?.captureFrame();
+    if (!frame) {
+      toast.error("Could not read the current video frame");
+      return;
+    }
+
+    setIsDetectingLines(true);
+    try {
+      const detection = await detectPitchLines(frame);
+      setLineDetection(detection);
+      toast(`Found ${detection.segments.length} lines and ${detection.candidates.length} junctions`);
+    } catch (e) {
+      toast.error("Line detection failed");
+    } finally {
+      setIsDetectingLines(false);
+    }
+  };
+
+  // Projects every landmark with the best calibration at hand (the points placed
+  // so far, else the keyframes) and takes the detected junctions they land on
+  const handleAutoFillCalibration = () => {
+    const approximate = calibrationFit ? cameraFromFit(calibrationFit) : camera;
+    if (!lineDetection || !approximate) {
+      toast("Place four points first so detected junctions can be matched to landmarks");
+      return;
+    }
+
+    const matches = matchLandmarks(getPitchLandmarks(calibrationPitch), lineDetection.candidates, approximate);
+    if (matches.length < MIN_LANDMARKS) {
+      toast.error(`Only ${matches.length} landmarks matched, place the points by hand`);
+      return;
+    }
+
+    setCalibrationMode(LANDMARK_MODE);
+    setCalibrationPoints(matches.map(({ landmark, point }) => ({
+      x: point.x,
+      y: point.y,
+      label: landmark.name,
+      landmarkId: landmark.id,
+    })));
+    setReplacingPointIndex(null);
+    setActiveLandmarkId(null);
+    toast.success(`Matched ${matches.length} landmarks. Check the overlay, then complete the calibration.`);
+  };
+
+  // Per-video calibrations keep their keyframe times; a camera preset holds one
+  // keyframe that is applied at the current frame, scaled to this recording's
+  // resolution
+  const applySavedCalibration = (saved: SavedCalibration, atCurrentTime: boolean) => {
+    const keyframes = atCurrentTime
+      ? rescaleKeyframes(saved.keyframes, saved.frame, videoFrame)
+          .map(keyframe => ({ ...keyframe, id: crypto.randomUUID(), time: currentTime }))
+      : saved.keyframes;
+    if (keyframes.length === 0) return;
+
+    const [first] = keyframes;
+    setMatchInfo(prev => ({ ...prev, pitch: saved.pitch }));
+    setPendingPitch(null);
+    setCalibrationKeyframes(atCurrentTime ? [keyframes[0]] : keyframes);
+    setCalibrationMode(first.mode);
+    setCalibrationPoints(first.points);
+    setRobustCalibration(first.robust);
+    setStraightLines(first.straightLines);
+    setDistortionCoefficients(first.distortionCoefficients);
+    setReplacingPointIndex(null);
+    setActiveLandmarkId(null);
+    setActiveLineIndex(null);
+    setLineDetection(null);
+    setIsCalibrated(true);
+  };
+
+  const handleApplySavedCalibration = (saved: SavedCalibration) => {
+    applySavedCalibration(saved, saved.id !== videoFingerprint);
+    toast.success(`Applied calibration: ${saved.name}`);
+  };
+
+  const handleSaveCalibrationPreset = (name: string) => {
+    if (!calibrationFit) {
+      toast.error("Place enough points for a valid calibration first");
+      return;
+    }
+
+    const presets = saveCalibrationPreset({
+      name,
+      pitch: calibrationPitch,
+      frame: videoFrame,
+      keyframes: [{
+        id: crypto.randomUUID(),
+        time: 0,
+        mode: calibrationMode,
+        points: calibrationPoints,
+        robust: robustCalibration,
+        straightLines,
+        distortionCoefficients,
+      }],
+    });
+    if (!presets) {
+      toast.error("Could not save the calibration, browser storage is full or disabled");
+      return;
+    }
+    setCalibrationPresets(presets);
+    toast.success(`Saved calibration preset: ${name}`);
+  };
+
+  const handleDeleteCalibrationPreset = (id: string) => {
+    setCalibrationPresets(deleteCalibrationPreset(id));
+  };
+
   const handleCalibrationReset = () => {
     setCalibrationPoints([]);
-    setIsCalibrated(false);
-    setHomography(null);
-    setInverseHomography(null);
+    setReplacingPointIndex(null);
+    setActiveLandmarkId(null);
+    setStraightLines([]);
+    setActiveLineIndex(null);
+  };
+
+  // Clicks go to the new line until it is finished
+  const handleAddStraightLine = () => {
+    setActiveLineIndex(straightLines.length);
+    setStraightLines(prev => [...prev, []]);
+    setReplacingPointIndex(null);
+    setActiveLandmarkId(null);
+  };
+
+  const handleFinishStraightLine = () => {
+    // A line needs three points to say anything about its curvature
+    setStraightLines(prev => prev.filter(line => line.length >= 3));
+    setActiveLineIndex(null);
+  };
+
+  const handleRemoveStraightLine = (index: number) => {
+    setStraightLines(prev => prev.filter((_, i) => i !== index));
+    setActiveLineIndex(null);
   };
 
   const handleCalibrationComplete = () => {
-    // Compute homography matrices
-    const fieldPoints = getFieldReferencePoints(calibrationMode);
-    const imagePoints = calibrationPoints.map(p => ({ x: p.x, y: p.y }));
-    
-    if (imagePoints.length >= fieldPoints.length) {
-      const inverseH = Homography.compute(fieldPoints, imagePoints);
-      const forwardH = inverseH ? Homography.invert(inverseH) : null;
-      
-      if (inverseH && forwardH) {
-        setInverseHomography(inverseH);
-        setHomography(forwardH);
-        setIsCalibrated(true);
-        toast.success("Calibration completed! You can now start annotating.");
+    if (calibrationPoints.length < getRequiredPoints(calibrationMode, calibrationPitch)) {
+      toast.error("Not enough calibration points.");
+      return;
+    }
+
+    if (calibrationFit) {
+      const keyframe: CalibrationKeyframe = {
+        id: crypto.randomUUID(),
+        time: currentTime,
+        mode: calibrationMode,
+        points: calibrationPoints,
+        robust: robustCalibration,
+        straightLines,
+        distortionCoefficients,
+      };
+      // A recalibrated keyframe keeps its place on the timeline. On a new
+      // template it replaces the keyframes placed against the old one.
+      const recalibrating = calibrationKeyframes.find(k => k.id === recalibratingKeyframeId);
+      const placed = recalibrating ? { ...keyframe, id: recalibrating.id, time: recalibrating.time } : keyframe;
+      if (pendingPitch) {
+        setMatchInfo(prev => ({ ...prev, pitch: pendingPitch }));
+        setCalibrationKeyframes([placed]);
+        setPendingPitch(null);
       } else {
-        toast.error("Calibration failed. Please try again with more accurate points.");
+        setCalibrationKeyframes(prev =>
+          recalibrating ? prev.map(k => (k.id === recalibrating.id ? placed : k)) : upsertKeyframe(prev, keyframe)
+        );
       }
+      setRecalibratingKeyframeId(null);
+      setReplacingPointIndex(null);
+      setActiveLandmarkId(null);
+      setLineDetection(null);
+      setActiveLineIndex(null);
+      setIsCalibrated(true);
+      toast.success(
+        `Calibration completed (RMS ${calibrationFit.rmsPixels.toFixed(1)} px / ${calibrationFit.rmsMeters.toFixed(2)} m). You can now start annotating.`
+      );
     } else {
-      toast.error("Not enough calibration points.");
+      toast.error("Calibration failed. Please try again with more accurate points.");
     }
   };
 
   const handleCalibrationModeChange = (mode: CalibrationMode) => {
-    // Reset all calibration state when switching modes
+    // Reset the points being placed when switching modes
     setCalibrationPoints([]);
-    setIsCalibrated(false);
-    setHomography(null);
-    setInverseHomography(null);
+    setReplacingPointIndex(null);
+    setActiveLandmarkId(null);
     setCalibrationMode(mode);
   };
 
-  // Helper functions for calibration
-  const getCalibrationInstruction = (mode: CalibrationMode, pointIndex: number): string => {
-    const instructions = {
-      "away-goal": [
-        "Click top-left corner of small goal area",
-        "Click top-right corner of small goal area", 
-        "Click bottom-left corner of small goal area",
-        "Click bottom-right corner of small goal area",
-        "Click top-left corner of large goal area",
-        "Click top-right corner of large goal area",
-        "Click bottom-left corner of large goal area",
-        "Click bottom-right corner of large goal area"
-      ],
-      "home-goal": [
-        "Click top-left corner of small goal area",
-        "Click top-right corner of small goal area",
-        "Click bottom-left corner of small goal area", 
-        "Click bottom-right corner of small goal area",
-        "Click top-left corner of large goal area",
-        "Click top-right corner of large goal area",
-        "Click bottom-left corner of large goal area",
-        "Click bottom-right corner of large goal area"
-      ],
-      "center-circle": [
-        "Click the Center Spot of the pitch",
-        "Click the Top of the Center Circle (closest to a goal)",
-        "Click the Right point of the Center Circle (on halfway line)",
-        "Click the Bottom of the Center Circle (furthest from a goal)",
-        "Click the Left point of the Center Circle (on halfway line)",
-        "Click the Midpoint of the Top Touchline",
-        "Click the Midpoint of the Bottom Touchline"
-      ]
-    };
-    
-    return instructions[mode][pointIndex] || "Calibration complete";
+  // Starts a keyframe at the current frame from the nearest earlier one, so after
+  // a pan the points only need dragging onto the moved markings
+  const handleAddCalibrationKeyframe = () => {
+    const span = findKeyframeSpan(calibrationKeyframes, currentTime);
+    if (span) {
+      setCalibrationMode(span.before.mode);
+      setCalibrationPoints(span.before.points);
+      setRobustCalibration(span.before.robust);
+      setStraightLines(span.before.straightLines);
+      setDistortionCoefficients(span.before.distortionCoefficients);
+    }
+    setRecalibratingKeyframeId(null);
+    setReplacingPointIndex(null);
+    setActiveLandmarkId(null);
+    setLineDetection(null);
+    setIsCalibrated(false);
   };
 
-  const getRequiredPoints = (mode: CalibrationMode): number => {
-    const requiredPoints = {
-      "away-goal": 8,
-      "home-goal": 8,
-      "center-circle": 7
-    };
-    return requiredPoints[mode];
+  // Reopens the keyframe in effect at the current time (the closer of the two
+  // around it) for editing; clips, drawings and match info stay as they are
+  const handleRecalibrate = () => {
+    const span = findKeyframeSpan(calibrationKeyframes, currentTime);
+    if (!span) return;
+    const keyframe = span.t < 0.5 ? span.before : span.after;
+    setCalibrationMode(keyframe.mode);
+    setCalibrationPoints(keyframe.points);
+    setRobustCalibration(keyframe.robust);
+    setStraightLines(keyframe.straightLines);
+    setDistortionCoefficients(keyframe.distortionCoefficients);
+    setRecalibratingKeyframeId(keyframe.id);
+    setReplacingPointIndex(null);
+    setActiveLandmarkId(null);
+    setActiveLineIndex(null);
+    setLineDetection(null);
+    setIsCalibrated(false);
+  };
+
+  const handleCalibrationCancel = () => {
+    setPendingPitch(null);
+    setRecalibratingKeyframeId(null);
+    setReplacingPointIndex(null);
+    setActiveLandmarkId(null);
+    setLineDetection(null);
+    setIsCalibrated(true);
+  };
+
+  const handleCalibrationKeyframeRemove = (id: string) => {
+    const remaining = calibrationKeyframes.filter(k => k.id !== id);
+    setCalibrationKeyframes(remaining);
+    if (remaining.length === 0) setIsCalibrated(false);
   };
 
   if (!videoSrc) {
@@ -345,35 +782,27 @@ const Index = () => {
                   {/* Video + Canvas Section */}
                   <div className="relative">
                     <VideoPlayer
+                      ref={videoPlayerRef}
                       src={videoSrc}
                       onTimeUpdate={handleTimeUpdate}
                       onLoadedData={handleVideoLoadedData}
+                      onLayoutChange={handleVideoLayoutChange}
                     />
                     
                     {/* Calibration Overlay - Only for placing points */}
                     {!isCalibrated && (
-                      <div 
-                        className="absolute inset-0 bg-black/20 cursor-crosshair z-20"
-                        onClick={(e) => {
-                          const rect = e.currentTarget.getBoundingClientRect();
-                          const x = e.clientX - rect.left;
-                          const y = e.clientY - rect.top;
-                          handleCalibrationPointClick(x, y);
-                        }}
-                      >
-                        {/* Calibration Points */}
-                        {calibrationPoints.map((point, index) => (
-                          <div
-                            key={index}
-                            className="absolute w-4 h-4 bg-primary rounded-full border-2 border-white transform -translate-x-1/2 -translate-y-1/2 shadow-lg animate-pulse"
-                            style={{ left: point.x, top: point.y }}
-                          >
-                            <span className="absolute -top-6 left-1/2 transform -translate-x-1/2 text-xs font-bold bg-primary text-primary-foreground px-1 rounded">
-                              {index + 1}
-                            </span>
-                          </div>
-                        ))}
-                      </div>
+                      <CalibrationPointsOverlay
+                        points={calibrationPoints}
+                        calibrationFit={calibrationFit}
+                        replacingPointIndex={replacingPointIndex}
+                        detection={lineDetection}
+                        straightLines={straightLines}
+                        view={view}
+                        frame={videoFrame}
+                        onPlace={handleCalibrationPointClick}
+                        onMove={handleCalibrationPointMove}
+                        onDragChange={setIsDraggingPoint}
+                      />
                     )}
 
                     {isCalibrated && (
@@ -404,6 +833,34 @@ const Index = () => {
                             onChange={(e) => setMatchInfo({ ...matchInfo, awayTeam: e.target.value })}
                             className="px-3 py-2 border rounded text-sm"
                           />
+                          <label className="flex items-center gap-2 text-sm">
+                            <span className="text-muted-foreground whitespace-nowrap">Pitch length (m)</span>
+                            <input
+                              type="number"
+                              step={0.5}
+                              min={pitchTemplate.lengthRange.min}
+                              max={pitchTemplate.lengthRange.max}
+                              value={pitchDimensionInput.length ?? matchInfo.pitch.length}
+                              onChange={(e) => setPitchDimensionInput(prev => ({ ...prev, length: e.target.value }))}
+                              onBlur={() => commitPitchDimension("length")}
+                              onKeyDown={(e) => e.key === "Enter" && commitPitchDimension("length")}
+                              className="w-full px-3 py-2 border rounded text-sm"
+                            />
+                          </label>
+                          <label className="flex items-center gap-2 text-sm">
+                            <span className="text-muted-foreground whitespace-nowrap">Pitch width (m)</span>
+                            <input
+                              type="number"
+                              step={0.5}
+                              min={pitchTemplate.widthRange.min}
+                              max={pitchTemplate.widthRange.max}
+                              value={pitchDimensionInput.width ?? matchInfo.pitch.width}
+                              onChange={(e) => setPitchDimensionInput(prev => ({ ...prev, width: e.target.value }))}
+                              onBlur={() => commitPitchDimension("width")}
+                              onKeyDown={(e) => e.key === "Enter" && commitPitchDimension("width")}
+                              className="w-full px-3 py-2 border rounded text-sm"
+                            />
+                          </label>
                         </div>
 
                         {/* Toolbar */}
@@ -415,6 +872,19 @@ const Index = () => {
                             onColorChange={setActiveColor}
                             brushSize={brushSize}
                             onBrushSizeChange={setBrushSize}
+                            anchorToPitch={anchorToPitch}
+                            onAnchorToPitchChange={setAnchorToPitch}
+                            canDrawOnGround={!!camera}
+                            arrowOptions={arrowOptions}
+                            onArrowOptionsChange={setArrowOptions}
+                            spotlightOptions={spotlightOptions}
+                            onSpotlightOptionsChange={setSpotlightOptions}
+                            measureAngles={measureAngles}
+                            onMeasureAnglesChange={setMeasureAngles}
+                            linkBand={linkBand}
+                            onLinkBandChange={setLinkBand}
+                            offsideAttacker={offsideAttacker}
+                            onOffsideAttackerChange={setOffsideAttacker}
                             onClear={handleClearCanvas}
                             onDelete={handleDeleteSelected}
                             onUndo={handleUndo}
@@ -423,40 +893,103 @@ const Index = () => {
                             onExport={handleExport}
                           />
                           
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => setShowFieldOverlay(!showFieldOverlay)}
-                            className="gap-2"
-                          >
-                            <Target className="h-4 w-4" />
-                            {showFieldOverlay ? "Hide" : "Show"} Field
-                          </Button>
+                          <div className="flex items-center gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={handleRecalibrate}
+                              className="gap-2"
+                            >
+                              <RefreshCw className="h-4 w-4" />
+                              Recalibrate
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={handleAddCalibrationKeyframe}
+                              className="gap-2"
+                            >
+                              <Crosshair className="h-4 w-4" />
+                              Calibrate Frame
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setShowFieldOverlay(!showFieldOverlay)}
+                              className="gap-2"
+                            >
+                              <Target className="h-4 w-4" />
+                              {showFieldOverlay ? "Hide" : "Show"} Field
+                            </Button>
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="outline" size="sm" className="gap-2" disabled={!showFieldOverlay}>
+                                  <Grid3x3 className="h-4 w-4" />
+                                  Grids{tacticalGrids.length > 0 && ` (${tacticalGrids.length})`}
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuLabel>Tactical grids</DropdownMenuLabel>
+                                <DropdownMenuSeparator />
+                                {TACTICAL_GRIDS.map(grid => (
+                                  <DropdownMenuCheckboxItem
+                                    key={grid.id}
+                                    checked={tacticalGrids.includes(grid.id)}
+                                    onCheckedChange={(checked) =>
+                                      setTacticalGrids(prev =>
+                                        checked ? [...prev, grid.id] : prev.filter(id => id !== grid.id)
+                                      )
+                                    }
+                                    // Keep the menu open to toggle several grids
+                                    onSelect={(e) => e.preventDefault()}
+                                  >
+                                    {grid.name}
+                                  </DropdownMenuCheckboxItem>
+                                ))}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </div>
                         </div>
                       </>
                     )}
 
                     {/* Field Overlay */}
                     <FieldOverlay
-                      width={canvasSize.width}
-                      height={canvasSize.height}
-                      calibrationMode={calibrationMode}
-                      calibrationPoints={calibrationPoints}
-                      isVisible={showFieldOverlay && isCalibrated}
+                      width={displaySize.width}
+                      height={displaySize.height}
+                      camera={isCalibrated ? camera : calibrationFit ? cameraFromFit(calibrationFit) : null}
+                      view={view}
+                      frame={videoFrame}
+                      pitch={isCalibrated ? matchInfo.pitch : calibrationPitch}
+                      grids={tacticalGrids}
+                      isVisible={showFieldOverlay}
                     />
                     
-                    {/* Drawing Canvas */}
-                    {isCalibrated && (
-                      <div className="absolute inset-0">
+                    {/* Drawing Canvas - kept mounted (hidden) while recalibrating so drawings survive */}
+                    {(isCalibrated || calibrationKeyframes.length > 0) && (
+                      <div className={isCalibrated ? "absolute inset-0" : "hidden"}>
                         <DrawingCanvas
                           ref={canvasRef}
-                          width={canvasSize.width}
-                          height={canvasSize.height}
+                          width={displaySize.width}
+                          height={displaySize.height}
                           activeTool={activeTool}
+                          onToolChange={setActiveTool}
                           activeColor={activeColor}
                           brushSize={brushSize}
-                          homography={homography}
-                          inverseHomography={inverseHomography}
+                          camera={camera}
+                          view={view}
+                          frame={videoFrame}
+                          interactive={isCalibrated}
+                          anchorToPitch={anchorToPitch}
+                          arrowOptions={arrowOptions}
+                          spotlightOptions={spotlightOptions}
+                          measureAngles={measureAngles}
+                          linkBand={linkBand}
+                          offsideAttacker={offsideAttacker}
+                          pitch={matchInfo.pitch}
+                          clipTime={clipTime}
+                          clipDuration={clipDuration}
+                          onSelectionChange={setSelectedAnnotation}
                         />
                       </div>
                     )}
@@ -476,7 +1009,8 @@ const Index = () => {
                     {/* Calibration Status */}
                     {isCalibrated && (
                       <div className="absolute top-2 right-2 bg-green-500/80 text-white px-2 py-1 rounded text-xs font-mono">
-                        {calibrationMode.toUpperCase()} CALIBRATED
+                        {(activeCalibration?.mode ?? calibrationMode).toUpperCase()} CALIBRATED
+                        {calibrationKeyframes.length > 1 && ` · ${calibrationKeyframes.length} KEYFRAMES`}
                       </div>
                     )}
                   </div>
@@ -492,6 +1026,8 @@ const Index = () => {
                       onClipCreate={handleClipCreate}
                       onClipSelect={handleClipSelect}
                       selectedClip={selectedClip}
+                      calibrationKeyframes={calibrationKeyframes}
+                      onCalibrationKeyframeRemove={handleCalibrationKeyframeRemove}
                     />
 
                     {selectedClip && (
@@ -517,6 +1053,17 @@ const Index = () => {
                       </Card>
                     )}
 
+                    {selectedClip && selectedAnnotation && clipTime !== null && (
+                      <SelectedAnnotationPanel
+                        selection={selectedAnnotation}
+                        clipTime={clipTime}
+                        clipDuration={clipDuration}
+                        onTimingChange={(change) => canvasRef.current?.updateSelectedTiming(change)}
+                        onAddKeyframe={() => canvasRef.current?.addSelectedKeyframe()}
+                        onClearMotion={() => canvasRef.current?.clearSelectedMotion()}
+                      />
+                    )}
+
                     <KeyboardShortcuts />
                   </div>
                 )}
@@ -529,9 +1076,39 @@ const Index = () => {
             <CalibrationSidebar
               calibrationMode={calibrationMode}
               calibrationPoints={calibrationPoints}
+              pitch={calibrationPitch}
+              frame={videoFrame}
+              calibrationFit={calibrationFit}
+              robust={robustCalibration}
+              onRobustChange={setRobustCalibration}
+              replacingPointIndex={replacingPointIndex}
+              onReplacePoint={setReplacingPointIndex}
+              activeLandmarkId={activeLandmarkId}
+              onLandmarkSelect={setActiveLandmarkId}
               onModeChange={handleCalibrationModeChange}
+              onTemplateChange={handlePitchTemplateChange}
+              keyframeTime={calibrationKeyframes.find(k => k.id === recalibratingKeyframeId)?.time ?? currentTime}
+              lineDetection={lineDetection}
+              isDetectingLines={isDetectingLines}
+              snapToLines={snapToLines}
+              onSnapToLinesChange={setSnapToLines}
+              onDetectLines={handleDetectLines}
+              onAutoFill={handleAutoFillCalibration}
+              distortionCoefficients={distortionCoefficients}
+              onDistortionCoefficientsChange={setDistortionCoefficients}
+              straightLines={straightLines}
+              activeLineIndex={activeLineIndex}
+              onAddStraightLine={handleAddStraightLine}
+              onFinishStraightLine={handleFinishStraightLine}
+              onRemoveStraightLine={handleRemoveStraightLine}
+              videoCalibration={videoCalibration}
+              calibrationPresets={calibrationPresets}
+              onApplySavedCalibration={handleApplySavedCalibration}
+              onSaveCalibrationPreset={handleSaveCalibrationPreset}
+              onDeleteCalibrationPreset={handleDeleteCalibrationPreset}
               onReset={handleCalibrationReset}
               onComplete={handleCalibrationComplete}
+              onCancel={calibrationKeyframes.length > 0 ? handleCalibrationCancel : undefined}
             />
           )}
         </div>